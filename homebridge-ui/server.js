@@ -0,0 +1,159 @@
+/* global console */
+import { HomebridgePluginUiServer, RequestError } from '@homebridge/plugin-ui-utils';
+
+import { BLEController } from '../dist/bleController.js';
+import { NobleTransport } from '../dist/bleTransport.js';
+import { SimulatedTransport } from '../dist/simulatedTransport.js';
+import { LAMP_SERVICE_UUID } from '../dist/settings.js';
+
+/**
+ * Logger passed to the BLE classes, the output ends up in the Homebridge UI log
+ */
+const prefix = '[Schneider BLE Lamps UI]';
+const log = Object.assign((...args) => console.log(prefix, ...args), {
+  info: (...args) => console.log(prefix, ...args),
+  success: (...args) => console.log(prefix, ...args),
+  warn: (...args) => console.warn(prefix, ...args),
+  error: (...args) => console.error(prefix, ...args),
+  debug: () => {},
+});
+
+/**
+ * Custom UI Server
+ * Scans for nearby lamps when requested by the plugin settings page, checks whether they
+ * expose the lamp control characteristic and switches them on and off for testing.
+ */
+class SchneiderBLELampsUiServer extends HomebridgePluginUiServer {
+  constructor() {
+    super();
+
+    this.transport = null;
+    this.simulated = false;
+    this.scanner = null;
+    // Peripherals found by the last scan, by lowercase address
+    this.peripherals = new Map();
+
+    this.onRequest('/scan', this.scan.bind(this));
+    this.onRequest('/probe', this.probe.bind(this));
+    this.onRequest('/test', this.test.bind(this));
+
+    this.ready();
+  }
+
+  /**
+   * Scan for nearby peripherals
+   * @param payload - `config` is the platform config being edited, `duration` the scan duration in seconds
+   * @returns The peripherals found, sorted by signal strength
+   */
+  async scan({ config = {}, duration = 10 } = {}) {
+    const scanner = await this.getScanner(config);
+
+    let peripherals;
+    try {
+      peripherals = await scanner.scanDevices(duration);
+    } catch (error) {
+      throw new RequestError(`Scan failed: ${error instanceof Error ? error.message : 'Unknown error'}`, {});
+    }
+
+    this.peripherals.clear();
+    for (const peripheral of peripherals) {
+      if (peripheral.address) {
+        this.peripherals.set(peripheral.address.toLowerCase(), peripheral);
+      }
+    }
+
+    return [...this.peripherals.entries()]
+      .map(([address, peripheral]) => ({
+        address,
+        name: peripheral.advertisement?.localName ?? null,
+        rssi: peripheral.rssi,
+        advertisesLampService: (peripheral.advertisement?.serviceUuids ?? []).includes(LAMP_SERVICE_UUID),
+      }))
+      .sort((a, b) => b.rssi - a.rssi);
+  }
+
+  /**
+   * Connect to a scanned peripheral and check for the lamp control characteristic
+   * @param payload - `address` of the peripheral, optional `characteristic` overriding the control characteristic
+   */
+  async probe({ address, characteristic } = {}) {
+    return this.withController(address, characteristic, async (controller) => ({
+      address,
+      hasControlCharacteristic: controller.getSelectedCharacteristic() !== null,
+      dimmable: controller.supportsDimming(),
+    }));
+  }
+
+  /**
+   * Switch a scanned lamp on or off
+   * @param payload - `address` of the lamp, `on` the state to set, optional `characteristic` overriding the control characteristic
+   */
+  async test({ address, on, characteristic } = {}) {
+    return this.withController(address, characteristic, async (controller) => {
+      if (!controller.getSelectedCharacteristic()) {
+        throw new RequestError(`${address} does not expose the lamp control characteristic`, { address });
+      }
+
+      const success = on ? await controller.turnLampOn() : await controller.turnLampOff();
+      if (!success) {
+        throw new RequestError(`Failed to switch ${address} ${on ? 'on' : 'off'}`, { address });
+      }
+      return { address, on };
+    });
+  }
+
+  /**
+   * Open the transport matching the simulation setting of the edited config
+   */
+  async getScanner(config) {
+    const simulated = config.simulate === true;
+    if (this.scanner && this.simulated === simulated) {
+      return this.scanner;
+    }
+
+    this.transport = simulated
+      ? new SimulatedTransport(log, { lamps: config.simulatedLamps, latency: config.simulatedLatency })
+      : new NobleTransport();
+    this.simulated = simulated;
+    this.scanner = new BLEController(log, this.transport);
+
+    try {
+      await this.scanner.init();
+    } catch (error) {
+      this.scanner = null;
+      throw new RequestError(`Bluetooth is not available: ${error instanceof Error ? error.message : 'Unknown error'}`, {});
+    }
+    return this.scanner;
+  }
+
+  /**
+   * Connect a short-lived controller to a scanned peripheral, run an action and disconnect again
+   */
+  async withController(address, characteristic, action) {
+    const peripheral = address ? this.peripherals.get(address.toLowerCase()) : undefined;
+    if (!peripheral) {
+      throw new RequestError('Lamp not found, scan again', { address });
+    }
+
+    const controller = new BLEController(log, this.transport);
+    // the lamp is only connected for this request
+    controller.setAutoReconnect(false);
+    if (characteristic) {
+      controller.setControlCharacteristicUuid(characteristic);
+    }
+
+    try {
+      await controller.connect(peripheral);
+      return await action(controller);
+    } catch (error) {
+      if (error instanceof RequestError) {
+        throw error;
+      }
+      throw new RequestError(`Failed to reach ${address}: ${error instanceof Error ? error.message : 'Unknown error'}`, { address });
+    } finally {
+      await controller.disconnect();
+    }
+  }
+}
+
+(() => new SchneiderBLELampsUiServer())();
@@ -10,5 +10,24 @@ declare module 'homebridge-lib/EveHomeKitTypes' {
   }
 }
 
+declare module 'homebridge-lib/CustomHomeKitTypes' {
+  export class CustomHomeKitTypes {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    constructor(homebridge: any);
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    Characteristics: Record<string, any>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    Services: Record<string, any>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    readonly Formats: Record<string, any>;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    readonly Perms: Record<string, any>;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    createCharacteristicClass(key: string, uuid: string, props: Record<string, unknown>, displayName?: string): any;
+  }
+}
+
 declare module 'homebridge-lib' {
 }
@@ -0,0 +1,256 @@
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createServer } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+import type { DeviceAccessoryHandler } from './deviceProfiles.js';
+import { ApiError } from './errors.js';
+import type { SchneiderBLELampsPlatform } from './platform.js';
+
+/**
+ * Options of the REST API from the `api` platform option
+ */
+export interface ApiOptions {
+  enabled: boolean;
+  port: number;
+  // Address the API listens on, only local clients by default
+  host: string;
+  // Bearer token every request must carry
+  token?: string;
+}
+
+export const DEFAULT_API_OPTIONS: ApiOptions = {
+  enabled: false,
+  port: 8585,
+  host: '127.0.0.1',
+};
+
+/**
+ * Lamp state returned by the API
+ */
+export interface LampApiState {
+  address: string;
+  name: string;
+  reachable: boolean;
+  on: boolean;
+  // Only present for lamps with brightness control
+  brightness?: number;
+}
+
+/**
+ * Body of a `PUT /lamps/:address` request
+ */
+interface LampApiChange {
+  on?: boolean;
+  brightness?: number;
+}
+
+// Largest accepted request body in bytes
+const MAX_BODY_SIZE = 1024;
+
+/**
+ * Lamp API Server
+ * Local HTTP API to read and switch lamps outside HomeKit. Changes are set on the HomeKit
+ * characteristics of the lamp, so they take the same path as changes from the Home app
+ * and the Home app is informed about them.
+ *
+ * - `GET /lamps` lists all lamps
+ * - `GET /lamps/:address` returns the state of a lamp
+ * - `PUT /lamps/:address` with `{on, brightness}` switches or dims a lamp
+ */
+export class LampApiServer {
+  private server: Server | null = null;
+  private readonly tokenHash: Buffer;
+
+  constructor(
+    private readonly platform: SchneiderBLELampsPlatform,
+    token: string,
+  ) {
+    this.tokenHash = LampApiServer.hash(token);
+  }
+
+  /**
+   * Hash a token, so that tokens of any length can be compared in constant time
+   */
+  private static hash(token: string): Buffer {
+    return createHash('sha256').update(token).digest();
+  }
+
+  /**
+   * Start listening, errors like a port in use are logged and leave the API disabled
+   */
+  public start(port: number, host: string): void {
+    this.server = createServer((request, response) => {
+      this.handleRequest(request, response).catch((error) => {
+        const status = error instanceof ApiError ? error.status : 500;
+        if (status === 500) {
+          this.platform.log.error(`REST API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        this.sendJson(response, status, { error: error instanceof ApiError ? error.message : 'Internal error' });
+      });
+    });
+
+    this.server.on('error', (error) => {
+      this.platform.log.error(`REST API failed: ${error.message}`);
+    });
+    this.server.listen(port, host, () => {
+      this.platform.log.info(`REST API listening at http://${host}:${port}/lamps`);
+    });
+  }
+
+  /**
+   * Stop listening
+   */
+  public stop(): void {
+    this.server?.close();
+    this.server = null;
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    this.authenticate(request);
+
+    const path = (request.url ?? '/').split('?')[0].replace(/\/+$/, '');
+    const [, collection, address, ...rest] = path.split('/');
+    if (collection !== 'lamps' || rest.length > 0) {
+      throw new ApiError(404, 'Not found');
+    }
+
+    if (address === undefined) {
+      if (request.method !== 'GET') {
+        throw new ApiError(405, 'Method not allowed');
+      }
+      const lamps = this.platform.getAccessoryHandlers()
+        .filter((handler) => handler.getLampService())
+        .map((handler) => this.describeLamp(handler));
+      this.sendJson(response, 200, lamps);
+      return;
+    }
+
+    const lampAddress = this.decodeAddress(address);
+    const handler = this.platform.getAccessoryHandler(lampAddress);
+    if (!handler?.getLampService()) {
+      throw new ApiError(404, `Lamp ${lampAddress} not found`);
+    }
+
+    switch (request.method) {
+    case 'GET':
+      this.sendJson(response, 200, this.describeLamp(handler));
+      return;
+    case 'PUT':
+      await this.changeLamp(handler, this.parseChange(await this.readBody(request)));
+      this.sendJson(response, 200, this.describeLamp(handler));
+      return;
+    default:
+      throw new ApiError(405, 'Method not allowed');
+    }
+  }
+
+  /**
+   * Check the bearer token of a request
+   */
+  private authenticate(request: IncomingMessage): void {
+    const match = /^Bearer (.+)$/.exec(request.headers.authorization ?? '');
+    if (!match || !timingSafeEqual(LampApiServer.hash(match[1]), this.tokenHash)) {
+      throw new ApiError(401, 'Missing or invalid token');
+    }
+  }
+
+  /**
+   * Describe the state of a lamp as shown in HomeKit
+   */
+  private describeLamp(handler: DeviceAccessoryHandler): LampApiState {
+    const accessory = handler.getAccessory();
+    const service = handler.getLampService()!;
+    const { Brightness, On } = this.platform.Characteristic;
+
+    const state: LampApiState = {
+      address: accessory.context.device.address,
+      name: accessory.displayName,
+      reachable: handler.isReachable(),
+      on: service.getCharacteristic(On).value as boolean,
+    };
+    if (service.testCharacteristic(Brightness)) {
+      state.brightness = service.getCharacteristic(Brightness).value as number;
+    }
+    return state;
+  }
+
+  /**
+   * Set the requested values on the HomeKit characteristics of the lamp
+   * The brightness is set first, so that a lamp asked to dim and switch off ends up off.
+   */
+  private async changeLamp(handler: DeviceAccessoryHandler, change: LampApiChange): Promise<void> {
+    const service = handler.getLampService()!;
+    const { Brightness, On } = this.platform.Characteristic;
+
+    if (change.brightness !== undefined && !service.testCharacteristic(Brightness)) {
+      throw new ApiError(400, 'Lamp does not support brightness');
+    }
+
+    try {
+      if (change.brightness !== undefined) {
+        await service.getCharacteristic(Brightness).handleSetRequest(change.brightness);
+      }
+      if (change.on !== undefined) {
+        await service.getCharacteristic(On).handleSetRequest(change.on);
+      }
+    } catch {
+      // the characteristic rejects with the HAP status the accessory reported
+      throw new ApiError(503, `Lamp ${handler.getAccessory().displayName} is not responding`);
+    }
+  }
+
+  private decodeAddress(address: string): string {
+    try {
+      return decodeURIComponent(address);
+    } catch {
+      throw new ApiError(400, 'Lamp address is not validly percent-encoded');
+    }
+  }
+
+  private parseChange(body: string): LampApiChange {
+    let change: LampApiChange;
+    try {
+      change = JSON.parse(body);
+    } catch {
+      throw new ApiError(400, 'Request body is not valid JSON');
+    }
+
+    if (typeof change !== 'object' || change === null || (change.on === undefined && change.brightness === undefined)) {
+      throw new ApiError(400, 'Expected an object with on and/or brightness');
+    }
+    if (change.on !== undefined && typeof change.on !== 'boolean') {
+      throw new ApiError(400, 'on must be true or false');
+    }
+    if (change.brightness !== undefined
+      && (typeof change.brightness !== 'number' || !Number.isInteger(change.brightness) || change.brightness < 0 || change.brightness > 100)) {
+      throw new ApiError(400, 'brightness must be an integer from 0 to 100');
+    }
+    return change;
+  }
+
+  private readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      request.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_SIZE) {
+          // the rest of the body is read and dropped, so that the error can still be answered
+          reject(new ApiError(413, 'Request body too large'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      request.on('error', reject);
+    });
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    if (response.headersSent) {
+      return;
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
@@ -1,77 +1,238 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import type { Logging } from 'homebridge';
-import noble from '@abandonware/noble';
+import { EventEmitter } from 'node:events';
+
+import type { BLETransport } from './bleTransport.js';
+import type { BindingRole, BindingValue, CharacteristicBinding, DeviceBindings, ShutterCommand } from './characteristicBindings.js';
+import { LAMP_BINDINGS, LEVEL_CODEC, ON_OFF_CODEC } from './characteristicBindings.js';
+import { BLEAbortError, BLETimeoutError } from './errors.js';
+import type { GattProfile } from './gattProfile.js';
+import { readGattProfile } from './gattProfile.js';
+import { GattOperationQueue } from './gattQueue.js';
+import type { BLEMetrics } from './metrics.js';
+
+/**
+ * Characteristics the controller writes to, the lamp control characteristic, a bound characteristic
+ * or the characteristic of a channel by its index
+ */
+type LampCharacteristic = 'control' | BindingRole | number;
+
+/**
+ * How the controller holds the connection to the lamp
+ * - persistent: stay connected and reconnect whenever the connection is lost
+ * - on-demand: connect for queued commands and disconnect after an idle period, so that other apps can reach the lamp
+ */
+export type ConnectionMode = 'persistent' | 'on-demand';
+
+/**
+ * Timeouts in milliseconds for each type of BLE operation
+ */
+export interface OperationTimeouts {
+  connect: number;
+  discover: number;
+  read: number;
+  write: number;
+}
+
+export const DEFAULT_OPERATION_TIMEOUTS: OperationTimeouts = {
+  connect: 15000,
+  discover: 15000,
+  read: 5000,
+  write: 5000,
+};
+
+/**
+ * Link quality of the connection to a device
+ */
+export interface LinkDiagnostics {
+  // Signal strength of the last sample in dBm, null before the first sample
+  rssi: number | null;
+  // Connections re-established by the automatic reconnection since startup
+  reconnects: number;
+  // Why the last connection ended, null if it never did
+  lastDisconnectReason: string | null;
+  // Duration of the last successful write in milliseconds
+  writeLatency: number | null;
+  // Epoch milliseconds of the last successful communication with the device
+  lastSeen: number | null;
+}
+
+/**
+ * State pushed by a device, e.g. after its wall switch was used
+ */
+export type DeviceStateChange =
+  | { kind: 'lamp'; isOn: boolean }
+  | { kind: 'channel'; channel: number; isOn: boolean }
+  | { kind: 'position'; position: number };
+
+/**
+ * Operations reported when they fail
+ */
+export type ControllerOperation = 'connect' | 'read' | 'write';
+
+/**
+ * Events of the BLEController with the arguments passed to their listeners
+ */
+export interface BLEControllerEvents {
+  // Adapter state reported by the transport, e.g. 'poweredOn' or 'poweredOff'
+  adapterState: [state: string];
+  // Peripheral found by a scan of this controller
+  discovered: [peripheral: any];
+  // Connected and subscribed to notifications, ready for commands
+  connected: [];
+  // Connection ended, with the description of the reason
+  disconnected: [reason: string];
+  // Automatic reconnection attempt starting after the delay
+  reconnecting: [attempt: number, delayMs: number];
+  // Automatic reconnection stopped after the maximum number of attempts
+  gaveUp: [attempts: number];
+  // State pushed by the device
+  stateChanged: [change: DeviceStateChange];
+  // Connect, read or write that failed, cancelled operations are not reported
+  operationFailed: [operation: ControllerOperation, error: Error];
+  // Link diagnostics updated
+  diagnostics: [diagnostics: LinkDiagnostics];
+}
+
+/**
+ * Descriptions of the HCI reasons noble reports with the disconnect event
+ */
+const DISCONNECT_REASONS: Record<number, string> = {
+  0x08: 'Connection timeout',
+  0x13: 'Disconnected by the device',
+  0x16: 'Disconnected by the adapter',
+  0x3e: 'Connection failed to be established',
+};
+
+/**
+ * Hooks called around every connection attempt
+ */
+export interface ConnectionAttemptHooks {
+  onConnectStart(): void;
+  onConnectEnd(): void;
+}
 
 /**
  * BLE Controller for Schneider BLE Lamps
  * This class handles the BLE communication with the lamp devices
  * Based on the working JavaScript implementation
+ * Connection changes and pushed states are emitted as the events of BLEControllerEvents.
  */
-export class BLEController {
+export class BLEController extends EventEmitter<BLEControllerEvents> {
   private readonly log: Logging;
+  private readonly transport: BLETransport;
   private isConnected = false;
   private peripheral: any = null;
   private characteristics = new Map<string | number, any>();
   private selectedCharacteristic: any = null;
+  private bindings: DeviceBindings = LAMP_BINDINGS;
+  // null for devices without lamp control characteristic
+  private controlCharacteristicUuid: string | null = LAMP_BINDINGS.on!.uuid;
+  // Characteristics of the other bindings found on the device
+  private readonly boundCharacteristics = new Map<BindingRole, any>();
+  // Characteristic of each channel of multi-channel devices, by channel index
+  private channelCharacteristics: any[] = [];
   private targetPeripheral: any = null; // Store the target peripheral for reconnection
   private reconnectionAttempts = 0;
   private maxReconnectionAttempts = 10;
-  private reconnectionDelay = 1000; // Start with 1 second
+  private initialReconnectionDelay = 1000; // Start with 1 second
+  private reconnectionDelay = 1000;
   private maxReconnectionDelay = 30000; // Max 30 seconds
   private connectionMonitorInterval: NodeJS.Timeout | null = null;
   private connectionMonitorIntervalMs = 10000; // Default 10 seconds
   private isReconnecting = false;
   private autoReconnectEnabled = true;
-
-  constructor(log: Logging) {
+  private disconnectedSince: number | null = null;
+  // Characteristics subscribed to for state notifications, with their data handlers
+  private readonly notifySubscriptions = new Map<any, (data: Buffer) => void>();
+  private connectionAttemptHooks: ConnectionAttemptHooks | null = null;
+  // Throws if no connection slot is free, checked before connecting on demand
+  private connectionSlotCheck: (() => void) | null = null;
+  // Connection attempts in progress, they hold a connection slot like an established connection
+  private pendingConnectionAttempts = 0;
+  private operationTimeouts: OperationTimeouts = { ...DEFAULT_OPERATION_TIMEOUTS };
+  private connectionMode: ConnectionMode = 'persistent';
+  private idleDisconnectDelayMs = 30000; // Default 30 seconds
+  private idleDisconnectTimer: NodeJS.Timeout | null = null;
+  private readonly diagnostics: LinkDiagnostics = {
+    rssi: null,
+    reconnects: 0,
+    lastDisconnectReason: null,
+    writeLatency: null,
+    lastSeen: null,
+  };
+  // reason of a disconnect started by the controller, reported instead of the HCI reason
+  private pendingDisconnectReason: string | null = null;
+  private metrics: BLEMetrics | null = null;
+  // address of the device, used as the lamp label of the metrics
+  private metricsLamp = '';
+  // GATT operations of the peripheral, run one at a time
+  private readonly operationQueue: GattOperationQueue;
+  // Connection and reconnection in progress, shared by everyone waiting for the connection
+  private connecting: Promise<void> | null = null;
+  private reconnection: Promise<void> | null = null;
+  private readonly onAdapterStateChange = (state: string) => {
+    this.emit('adapterState', state);
+  };
+
+  constructor(log: Logging, transport: BLETransport) {
+    super();
     this.log = log;
+    this.transport = transport;
+    this.operationQueue = new GattOperationQueue(log);
   }
 
   /**
    * Initialize the BLE controller
    */
   public async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.log.debug('Starting BLE controller initialization');
+    this.log.debug('Starting BLE controller initialization');
 
-        // Check if noble is available
-        if (typeof noble === 'undefined') {
-          this.log.error('Noble BLE library is not available');
-          reject(new Error('Noble BLE library is not available'));
-          return;
-        }
+    try {
+      await this.transport.open();
+    } catch (error) {
+      this.log.error(
+        `BLE transport is not available: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+      throw error;
+    }
 
-        this.log.debug('Noble library is available');
-        this.log.debug(`Noble type: ${typeof noble}`);
-        this.log.debug(`Noble state: ${noble.state}`);
-        this.log.debug(`Noble scanning: ${noble.scanning}`);
+    return new Promise((resolve, reject) => {
+      try {
+        this.log.debug('BLE transport is available');
+        this.log.debug(`BLE state: ${this.transport.state}`);
+        this.log.debug(`BLE scanning: ${this.transport.scanning}`);
 
         const onStateChange = (state: string) => {
           this.log.debug(`BLE state changed to: ${state}`);
 
           if (state === 'poweredOn') {
             this.log.info('BLE is powered on');
-            noble.removeListener('stateChange', onStateChange);
+            this.transport.removeListener('stateChange', onStateChange);
             resolve();
           } else {
             this.log.warn('BLE is not powered on');
-            noble.removeListener('stateChange', onStateChange);
+            this.transport.removeListener('stateChange', onStateChange);
             reject(new Error('BLE not powered on'));
           }
         };
 
         this.log.debug('Setting up state change event listener...');
-        noble.on('stateChange', onStateChange);
+        this.transport.on('stateChange', onStateChange);
+        // keeps reporting the adapter state after the initialization
+        this.transport.removeListener('stateChange', this.onAdapterStateChange);
+        this.transport.on('stateChange', this.onAdapterStateChange);
 
         // Check the current state in case it's already powered on
-        if (noble.state === 'poweredOn') {
+        if (this.transport.state === 'poweredOn') {
           this.log.info('BLE is already powered on');
-          noble.removeListener('stateChange', onStateChange);
+          this.transport.removeListener('stateChange', onStateChange);
           resolve();
         } else {
           this.log.debug(
-            `BLE is not powered on yet, current state: ${noble.state}`,
+            `BLE is not powered on yet, current state: ${this.transport.state}`,
           );
         }
       } catch (error) {
@@ -91,7 +252,7 @@ export class BLEController {
   /**
    * Scan for BLE devices
    * @param duration - Scan duration in seconds (default: 10)
-   * @param deviceFilter - Optional filter to stop scanning when matching device is found
+   * @param deviceFilter - Optional name or address to stop scanning when matching device is found
    * @returns Promise resolving to array of discovered peripherals
    */
   public async scanDevices(
@@ -101,16 +262,8 @@ export class BLEController {
     return new Promise((resolve, reject) => {
       try {
         this.log.debug('Starting scanDevices method');
-
-        if (typeof noble === 'undefined') {
-          this.log.error('Noble BLE library is not available');
-          reject(new Error('Noble BLE library is not available'));
-          return;
-        }
-
-        this.log.debug('Noble library is available, checking state...');
-        this.log.debug(`Noble state: ${noble.state}`);
-        this.log.debug(`Noble scanning: ${noble.scanning}`);
+        this.log.debug(`BLE state: ${this.transport.state}`);
+        this.log.debug(`BLE scanning: ${this.transport.scanning}`);
 
         const devices: any[] = [];
         let isResolved = false;
@@ -131,19 +284,22 @@ export class BLEController {
             clearTimeout(scanTimeout);
           }
           if (onDiscover) {
-            noble.removeListener('discover', onDiscover);
+            this.transport.removeListener('discover', onDiscover);
           }
-          noble.removeListener('scanStart', onScanStart);
-          noble.removeListener('scanStop', onScanStop);
-          if (noble.scanning) {
-            noble.stopScanning();
+          this.transport.removeListener('scanStart', onScanStart);
+          this.transport.removeListener('scanStop', onScanStop);
+          if (this.transport.scanning) {
+            this.transport.stopScanning();
           }
         };
 
+        const scanStartedAt = Date.now();
         const resolveOnce = (result: any[]) => {
           if (!isResolved) {
             isResolved = true;
             cleanup();
+            this.metrics?.scanDuration.observe({}, (Date.now() - scanStartedAt) / 1000);
+            this.metrics?.devicesFound.inc({}, new Set(result.map((peripheral) => peripheral.address)).size);
             resolve(result);
           }
         };
@@ -175,8 +331,14 @@ export class BLEController {
           }
 
           devices.push(peripheral);
+          this.emit('discovered', peripheral);
 
           // Check if this device matches the filter and stop scanning if it does
+          if (deviceFilter && peripheral.address?.toLowerCase() === deviceFilter.toLowerCase()) {
+            this.log.info(`Found device ${peripheral.address} - stopping scan early`);
+            resolveOnce(devices);
+            return;
+          }
           if (deviceFilter && peripheral.advertisement?.localName) {
             const name = peripheral.advertisement.localName;
             if (name.toLowerCase().includes(deviceFilter.toLowerCase())) {
@@ -196,9 +358,9 @@ export class BLEController {
         }, duration * 1000);
 
         this.log.debug('Setting up event listeners...');
-        noble.on('discover', onDiscover);
-        noble.on('scanStart', onScanStart);
-        noble.on('scanStop', onScanStop);
+        this.transport.on('discover', onDiscover);
+        this.transport.on('scanStart', onScanStart);
+        this.transport.on('scanStop', onScanStop);
 
         // Set up timeout to stop scanning after duration
         scanTimeout = setTimeout(() => {
@@ -207,7 +369,7 @@ export class BLEController {
         }, duration * 1000);
 
         this.log.debug('Starting scan...');
-        noble.startScanning([], false);
+        this.transport.startScanning([], false);
       } catch (error) {
         this.log.error(
           `Error in scanDevices: ${
@@ -225,75 +387,237 @@ export class BLEController {
   /**
    * Connect to a specific BLE peripheral
    * @param peripheral - The peripheral to connect to
+   * @param signal - Optional signal to cancel the connection attempt
    * @returns Promise resolving when connected
    */
-  public async connect(peripheral: any): Promise<void> {
-    return new Promise((resolve, reject) => {
-      this.log.info(
-        `Connecting to device: ${peripheral.address} - ${
-          peripheral.advertisement?.localName || 'Unknown'
+  public async connect(peripheral: any, signal?: AbortSignal): Promise<void> {
+    // Callers during a connection attempt to the same peripheral wait for that attempt
+    if (this.connecting && this.targetPeripheral === peripheral) {
+      return this.connecting;
+    }
+
+    // Store the target peripheral for reconnection, a given up reconnection stays given up until resetReconnection()
+    this.targetPeripheral = peripheral;
+
+    this.connecting = this.connectPeripheral(peripheral, signal).finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  /**
+   * Establish the connection to a peripheral without resetting the reconnection state
+   * @param peripheral - The peripheral to connect to
+   * @param signal - Optional signal to cancel the connection attempt
+   */
+  private async connectPeripheral(peripheral: any, signal?: AbortSignal): Promise<void> {
+    this.connectionAttemptHooks?.onConnectStart();
+    this.pendingConnectionAttempts++;
+    try {
+      await this.establishConnection(peripheral, signal);
+    } finally {
+      this.pendingConnectionAttempts--;
+      this.connectionAttemptHooks?.onConnectEnd();
+    }
+  }
+
+  /**
+   * Connect to a peripheral, then discover its characteristics and subscribe to notifications
+   * A connection left half-open by a timeout is torn down before the error is passed on.
+   * @param peripheral - The peripheral to connect to
+   * @param signal - Optional signal to cancel the connection attempt
+   */
+  private async establishConnection(peripheral: any, signal?: AbortSignal): Promise<void> {
+    this.log.info(
+      `Connecting to device: ${peripheral.address} - ${
+        peripheral.advertisement?.localName || 'Unknown'
+      }`,
+    );
+
+    const onDisconnect = (reason?: number) => {
+      this.isConnected = false;
+      this.disconnectedSince ??= Date.now();
+      this.peripheral = null;
+      this.metrics?.disconnects.inc({ lamp: this.metricsLamp });
+      const description = this.pendingDisconnectReason ?? BLEController.describeDisconnectReason(reason);
+      this.pendingDisconnectReason = null;
+      this.updateDiagnostics({ lastDisconnectReason: description });
+      this.emit('disconnected', description);
+      if (this.connectionMode === 'on-demand') {
+        // expected after every idle period
+        this.log.debug(`Disconnected from device: ${peripheral.address}`);
+      } else {
+        this.log.warn(`Disconnected from device: ${peripheral.address}`);
+      }
+      peripheral.removeListener('disconnect', onDisconnect);
+      
+      // Stop connection monitoring
+      this.stopConnectionMonitoring();
+      this.clearIdleDisconnect();
+      
+      // Attempt automatic reconnection if enabled
+      if (this.shouldReconnect() && !this.isReconnecting) {
+        this.log.info('Attempting automatic reconnection...');
+        this.attemptReconnection();
+      }
+    };
+
+    let onConnect: (() => void) | null = null;
+    const connectStartedAt = Date.now();
+    try {
+      await this.runWithTimeout<void>('connect', `Connect to ${peripheral.address}`, (resolve, reject) => {
+        onConnect = () => resolve();
+        peripheral.once('connect', onConnect);
+        peripheral.on('disconnect', onDisconnect);
+
+        peripheral.connect((error: Error | null) => {
+          if (error) {
+            this.log.error(`Failed to connect to device: ${error.message}`);
+            reject(error);
+          }
+        });
+      }, signal);
+    } catch (error) {
+      this.disconnectedSince ??= Date.now();
+      this.metrics?.connectFailures.inc({ lamp: this.metricsLamp });
+      peripheral.removeListener('connect', onConnect);
+      peripheral.removeListener('disconnect', onDisconnect);
+      if (error instanceof BLETimeoutError || error instanceof BLEAbortError) {
+        this.tearDownConnection(peripheral, error);
+      }
+      this.reportFailure('connect', error);
+      throw error;
+    }
+
+    this.isConnected = true;
+    this.disconnectedSince = null;
+    this.peripheral = peripheral;
+    this.pendingDisconnectReason = null;
+    this.updateDiagnostics({ lastSeen: Date.now() });
+    this.metrics?.connects.inc({ lamp: this.metricsLamp });
+    this.metrics?.operationDuration.observe({ lamp: this.metricsLamp, operation: 'connect' }, (Date.now() - connectStartedAt) / 1000);
+    this.metrics?.currentReconnectionAttempt.set({ lamp: this.metricsLamp }, 0);
+    this.isReconnecting = false;
+    this.reconnectionAttempts = 0;
+    this.reconnectionDelay = this.initialReconnectionDelay; // Reset delay
+    this.log.info(`Connected to device: ${peripheral.address}`);
+
+    try {
+      // Discover services and characteristics after connection
+      await this.runWithTimeout<void>('discover', `Discover services of ${peripheral.address}`, (resolve, reject) => {
+        this.discoverServicesAndCharacteristics(peripheral).then(resolve, reject);
+      }, signal);
+
+      // Subscribe to state notifications, this is repeated after every reconnect
+      await this.subscribeToStateNotifications();
+      await this.sampleRssi();
+      this.emit('connected');
+      
+      if (this.connectionMode === 'persistent') {
+        // Start connection monitoring
+        this.startConnectionMonitoring();
+      } else {
+        // Free the lamp again if no command follows
+        this.scheduleIdleDisconnect();
+      }
+    } catch (error) {
+      this.log.error(
+        `Failed to discover services: ${
+          error instanceof Error ? error.message : 'Unknown error'
         }`,
       );
+      if (error instanceof BLETimeoutError || error instanceof BLEAbortError) {
+        this.tearDownConnection(peripheral, error);
+      }
+      this.reportFailure('connect', error);
+      throw error;
+    }
+  }
 
-      // Store the target peripheral for reconnection
-      this.targetPeripheral = peripheral;
-      this.reconnectionAttempts = 0;
+  /**
+   * Emit the operationFailed event for a failed operation, cancelled operations are not reported
+   */
+  private reportFailure(operation: ControllerOperation, error: unknown): void {
+    if (!(error instanceof BLEAbortError)) {
+      this.emit('operationFailed', operation, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
 
-      const onConnect = async () => {
-        this.isConnected = true;
-        this.peripheral = peripheral;
-        this.isReconnecting = false;
-        this.reconnectionAttempts = 0;
-        this.reconnectionDelay = 1000; // Reset delay
-        this.log.info(`Connected to device: ${peripheral.address}`);
-        peripheral.removeListener('connect', onConnect);
+  /**
+   * Run a callback based BLE operation with the timeout configured for its type
+   * @param type - The operation type selecting the timeout
+   * @param operation - Description of the operation for errors and logging
+   * @param executor - Starts the operation and settles it from the noble callback
+   * @param signal - Optional signal to cancel waiting for the operation
+   * @returns Promise rejecting with a BLETimeoutError or BLEAbortError if the operation does not complete
+   */
+  private runWithTimeout<T>(
+    type: keyof OperationTimeouts,
+    operation: string,
+    executor: (resolve: (value: T) => void, reject: (error: unknown) => void) => void,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new BLEAbortError(operation));
+        return;
+      }
 
-        try {
-          // Discover services and characteristics after connection
-          await this.discoverServicesAndCharacteristics(peripheral);
-          
-          // Start connection monitoring
-          this.startConnectionMonitoring();
-          
-          resolve();
-        } catch (error) {
-          this.log.error(
-            `Failed to discover services: ${
-              error instanceof Error ? error.message : 'Unknown error'
-            }`,
-          );
-          reject(error);
+      const timeoutMs = this.operationTimeouts[type];
+      let settled = false;
+      let cleanup = () => {};
+      const settle = (callback: () => void) => {
+        if (!settled) {
+          settled = true;
+          cleanup();
+          callback();
         }
       };
-
-      const onDisconnect = () => {
-        this.isConnected = false;
-        this.peripheral = null;
-        this.log.warn(`Disconnected from device: ${peripheral.address}`);
-        peripheral.removeListener('disconnect', onDisconnect);
-        
-        // Stop connection monitoring
-        this.stopConnectionMonitoring();
-        
-        // Attempt automatic reconnection if enabled
-        if (this.autoReconnectEnabled && !this.isReconnecting) {
-          this.log.info('Attempting automatic reconnection...');
-          this.attemptReconnection();
-        }
+      const timer = setTimeout(() => settle(() => reject(new BLETimeoutError(operation, timeoutMs))), timeoutMs);
+      const onAbort = () => settle(() => reject(new BLEAbortError(operation)));
+      signal?.addEventListener('abort', onAbort, { once: true });
+      cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
       };
 
-      peripheral.on('connect', onConnect);
-      peripheral.on('disconnect', onDisconnect);
-
-      peripheral.connect((error: Error | null) => {
-        if (error) {
-          this.log.error(`Failed to connect to device: ${error.message}`);
-          reject(error);
-        }
-      });
+      try {
+        executor(
+          (value) => settle(() => resolve(value)),
+          (error) => settle(() => reject(error)),
+        );
+      } catch (error) {
+        settle(() => reject(error));
+      }
     });
   }
 
+  /**
+   * Tear down a connection left half-open by a timed out or aborted operation
+   * The disconnect event starts the automatic reconnection, which counts the timeout as a failed attempt.
+   * @param peripheral - The peripheral to disconnect
+   * @param reason - The error that caused the teardown
+   */
+  private tearDownConnection(peripheral: any, reason: Error): void {
+    this.log.warn(`Tearing down connection to ${peripheral.address}: ${reason.message}`);
+    if (this.isConnected) {
+      this.pendingDisconnectReason = reason.message;
+    }
+    this.clearNotificationSubscription();
+    this.stopConnectionMonitoring();
+    this.isConnected = false;
+    this.disconnectedSince ??= Date.now();
+    if (this.peripheral === peripheral) {
+      this.peripheral = null;
+    }
+
+    try {
+      peripheral.disconnect();
+    } catch (error) {
+      this.log.debug(`Failed to disconnect from ${peripheral.address}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Discover services and characteristics and store them for later use
    * @param peripheral - The connected peripheral
@@ -317,6 +641,8 @@ export class BLEController {
 
           // Clear previous characteristics
           this.characteristics.clear();
+          this.boundCharacteristics.clear();
+          this.channelCharacteristics = [];
 
           // Log all discovered services
           services.forEach((service, index) => {
@@ -361,7 +687,7 @@ export class BLEController {
                     this.characteristics.set(key, char);
 
                     // Check if this is the lamp control characteristic we're looking for
-                    if (char.uuid === 'b35d95c66a68437eabe70ebffd8e0661') {
+                    if (char.uuid === this.controlCharacteristicUuid) {
                       this.log.info(
                         `*** FOUND LAMP CONTROL CHARACTERISTIC: ${char.uuid} ***`,
                       );
@@ -376,6 +702,24 @@ export class BLEController {
                         'Automatically selected lamp control characteristic',
                       );
                     }
+
+                    // Dimmer models expose an additional level characteristic, shutters their position and command characteristics
+                    for (const [role, binding] of Object.entries(this.bindings)) {
+                      if (role !== 'on' && role !== 'channels' && char.uuid === binding.uuid) {
+                        this.log.info(role === 'brightness'
+                          ? `Found lamp level characteristic: ${char.uuid}, dimming is supported`
+                          : `Found ${role} characteristic: ${char.uuid}`);
+                        this.boundCharacteristics.set(role as BindingRole, char);
+                      }
+                    }
+
+                    // Multi-channel devices switch each load through its own characteristic or a shared one
+                    this.bindings.channels?.forEach((binding, channel) => {
+                      if (char.uuid === binding.uuid) {
+                        this.log.info(`Found characteristic of channel ${channel + 1}: ${char.uuid}`);
+                        this.channelCharacteristics[channel] = char;
+                      }
+                    });
                   });
                 }
 
@@ -388,7 +732,7 @@ export class BLEController {
                     this.log.info(
                       `Lamp control characteristic selected: ${this.selectedCharacteristic.uuid}`,
                     );
-                  } else {
+                  } else if (this.controlCharacteristicUuid) {
                     this.log.warn(
                       'Lamp control characteristic not found automatically',
                     );
@@ -403,6 +747,190 @@ export class BLEController {
     });
   }
 
+  /**
+   * Subscribe to notifications reporting lamp state changes
+   * Multi-channel devices subscribe to every notifying channel characteristic. Otherwise the lamp control
+   * characteristic is preferred, then the position characteristic of window coverings, and finally any other
+   * notifying characteristic is used.
+   */
+  private async subscribeToStateNotifications(): Promise<void> {
+    this.clearNotificationSubscription();
+
+    const canNotify = (char: any) =>
+      char?.properties?.includes('notify') || char?.properties?.includes('indicate');
+
+    let chars: any[] = [...new Set(this.channelCharacteristics.filter(canNotify))];
+    if (chars.length === 0) {
+      const char = [this.selectedCharacteristic, this.boundCharacteristics.get('position')].find(canNotify)
+        ?? [...this.characteristics.values()].find(canNotify);
+      chars = char ? [char] : [];
+    }
+    chars = chars.filter((char) => char.subscribe);
+
+    if (chars.length === 0) {
+      this.log.debug('No notifying characteristic found, lamp state changes will only be read on request');
+      return;
+    }
+
+    for (const char of chars) {
+      await this.subscribeToCharacteristic(char);
+    }
+  }
+
+  /**
+   * Subscribe to the notifications of one characteristic
+   */
+  private async subscribeToCharacteristic(char: any): Promise<void> {
+    const handler = (data: Buffer) => {
+      // failures of a single notification, including those of its listeners, must not end the process
+      this.handleNotification(char, data).catch((error) => {
+        this.log.error(`Failed to handle notification from characteristic ${char.uuid}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+    };
+    char.on('data', handler);
+    this.notifySubscriptions.set(char, handler);
+
+    try {
+      await this.runWithTimeout<void>('write', `Subscribe to characteristic ${char.uuid}`, (resolve, reject) => {
+        char.subscribe((error: Error | null) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        });
+      });
+      this.log.info(`Subscribed to notifications from characteristic ${char.uuid}`);
+    } catch (error) {
+      char.removeListener('data', handler);
+      this.notifySubscriptions.delete(char);
+      this.log.warn(
+        `Failed to subscribe to characteristic ${char.uuid}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Remove the notification handlers from the subscribed characteristics
+   */
+  private clearNotificationSubscription(): void {
+    for (const [char, handler] of this.notifySubscriptions) {
+      char.removeListener('data', handler);
+    }
+    this.notifySubscriptions.clear();
+  }
+
+  /**
+   * Decode a notification and emit the pushed state
+   * Notifications from the control or position characteristic carry the state, notifications from any
+   * other characteristic only signal a change, so the control or position characteristic is read back.
+   * @param char - The notifying characteristic
+   * @param data - The notified value
+   */
+  private async handleNotification(char: any, data: Buffer): Promise<void> {
+    this.log.debug(`Notification from characteristic ${char?.uuid}: ${data.toString('hex')}`);
+    this.updateDiagnostics({ lastSeen: Date.now() });
+
+    if (this.channelCharacteristics.length > 0) {
+      await this.handleChannelNotification(char, data);
+      return;
+    }
+
+    if (!this.selectedCharacteristic && this.boundCharacteristics.has('position')) {
+      const position = char === this.boundCharacteristics.get('position')
+        ? this.bindings.position!.codec.decode(data)
+        : await this.readPosition();
+      if (position !== null) {
+        this.emit('stateChanged', { kind: 'position', position });
+      }
+      return;
+    }
+
+    let isOn: boolean | null;
+    if (char && char === this.selectedCharacteristic) {
+      isOn = this.decodeLampState(data);
+    } else {
+      isOn = await this.readLampState();
+    }
+
+    if (isOn !== null) {
+      this.emit('stateChanged', { kind: 'lamp', isOn });
+    }
+  }
+
+  /**
+   * Emit the channel states of a notification from a multi-channel device
+   * A notification from a channel characteristic carries the state of the channels bound to it,
+   * a notification from any other characteristic makes all channels be read back.
+   */
+  private async handleChannelNotification(char: any, data: Buffer): Promise<void> {
+    const channels = this.bindings.channels ?? [];
+    const fromChannel = this.channelCharacteristics.includes(char);
+
+    for (let channel = 0; channel < channels.length; channel++) {
+      if (fromChannel && this.channelCharacteristics[channel] !== char) {
+        continue;
+      }
+      const isOn = fromChannel ? channels[channel].codec.decode(data) : await this.readChannelState(channel);
+      if (isOn !== null) {
+        this.emit('stateChanged', { kind: 'channel', channel, isOn });
+      }
+    }
+  }
+
+  /**
+   * Get the current link diagnostics of the device
+   */
+  public getDiagnostics(): LinkDiagnostics {
+    return { ...this.diagnostics };
+  }
+
+  /**
+   * Update the link diagnostics and emit them
+   */
+  private updateDiagnostics(changes: Partial<LinkDiagnostics>): void {
+    Object.assign(this.diagnostics, changes);
+    this.emit('diagnostics', this.getDiagnostics());
+  }
+
+  /**
+   * Describe the HCI reason of a disconnect event
+   */
+  private static describeDisconnectReason(reason?: number): string {
+    if (typeof reason !== 'number') {
+      return 'Connection lost';
+    }
+    return DISCONNECT_REASONS[reason] ?? `Connection lost (reason 0x${reason.toString(16).padStart(2, '0')})`;
+  }
+
+  /**
+   * Read the signal strength of the connected device
+   * Failed samples are only logged, the previous sample is kept.
+   */
+  private async sampleRssi(): Promise<void> {
+    const peripheral = this.peripheral;
+    if (!peripheral?.updateRssi) {
+      return;
+    }
+
+    try {
+      const rssi = await this.runWithTimeout<number>('read', `Read RSSI of ${peripheral.address}`, (resolve, reject) => {
+        peripheral.updateRssi((error: Error | null, rssi: number) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve(rssi);
+          }
+        });
+      });
+      this.updateDiagnostics({ rssi, lastSeen: Date.now() });
+    } catch (error) {
+      this.log.debug(`Failed to read RSSI of ${peripheral.address}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Disconnect from the current peripheral
    */
@@ -410,21 +938,33 @@ export class BLEController {
     // Disable auto-reconnection when manually disconnecting
     this.autoReconnectEnabled = false;
     this.stopConnectionMonitoring();
+    this.clearIdleDisconnect();
     
     if (this.peripheral && this.isConnected) {
-      return new Promise((resolve) => {
-        this.peripheral!.once('disconnect', () => {
-          this.isConnected = false;
-          this.peripheral = null;
-          this.targetPeripheral = null;
-          this.selectedCharacteristic = null;
-          this.characteristics.clear();
-          this.log.info('Disconnected from device');
-          resolve();
+      const peripheral = this.peripheral;
+      this.pendingDisconnectReason = 'Disconnected by the plugin';
+      let onDisconnect: (() => void) | null = null;
+      try {
+        // a device that never confirms the disconnect must not block the shutdown, it is bounded by the connect timeout
+        await this.runWithTimeout<void>('connect', `Disconnect from ${peripheral.address}`, (resolve) => {
+          onDisconnect = () => resolve();
+          peripheral.once('disconnect', onDisconnect);
+          peripheral.disconnect();
         });
+        this.log.info('Disconnected from device');
+      } catch (error) {
+        peripheral.removeListener('disconnect', onDisconnect);
+        this.log.warn(`${error instanceof Error ? error.message : 'Unknown error'}, releasing the device anyway`);
+      }
 
-        this.peripheral!.disconnect();
-      });
+      this.isConnected = false;
+      this.peripheral = null;
+      this.targetPeripheral = null;
+      this.selectedCharacteristic = null;
+      this.boundCharacteristics.clear();
+      this.channelCharacteristics = [];
+      this.clearNotificationSubscription();
+      this.characteristics.clear();
     }
   }
 
@@ -458,7 +998,7 @@ export class BLEController {
   private async checkConnectionHealth(): Promise<void> {
     if (!this.isConnected || !this.peripheral) {
       this.log.debug('Connection health check: Not connected');
-      if (this.autoReconnectEnabled && !this.isReconnecting) {
+      if (this.shouldReconnect() && !this.isReconnecting) {
         this.log.info('Connection lost detected, attempting reconnection...');
         this.attemptReconnection();
       }
@@ -469,40 +1009,159 @@ export class BLEController {
     if (this.peripheral.state !== 'connected') {
       this.log.warn(`Connection health check failed: peripheral state is ${this.peripheral.state}`);
       this.isConnected = false;
-      if (this.autoReconnectEnabled && !this.isReconnecting) {
+      this.metrics?.disconnects.inc({ lamp: this.metricsLamp });
+      const reason = `Connection lost (peripheral state ${this.peripheral.state})`;
+      this.updateDiagnostics({ lastDisconnectReason: reason });
+      this.emit('disconnected', reason);
+      if (this.shouldReconnect() && !this.isReconnecting) {
         this.log.info('Connection state mismatch detected, attempting reconnection...');
         this.attemptReconnection();
       }
     } else {
       this.log.debug('Connection health check: OK');
+      await this.sampleRssi();
     }
   }
 
   /**
    * Attempt to reconnect to the target peripheral
+   * Callers during a reconnection wait for the attempt in progress instead of starting another one.
    */
-  private async attemptReconnection(): Promise<void> {
-    if (this.isReconnecting || !this.targetPeripheral || !this.autoReconnectEnabled) {
-      return;
-    }
+  private attemptReconnection(): Promise<void> {
+    this.reconnection ??= this.reconnect().finally(() => {
+      this.reconnection = null;
+    });
+    return this.reconnection;
+  }
 
-    this.isReconnecting = true;
-    this.reconnectionAttempts++;
+  /**
+   * Check if a lost connection is re-established automatically
+   * Lamps in on-demand mode are only reconnected for the next command.
+   */
+  private shouldReconnect(): boolean {
+    return this.autoReconnectEnabled && this.connectionMode === 'persistent';
+  }
 
-    if (this.reconnectionAttempts > this.maxReconnectionAttempts) {
-      this.log.error(`Max reconnection attempts (${this.maxReconnectionAttempts}) reached. Giving up.`);
-      this.isReconnecting = false;
-      return;
+  /**
+   * Re-establish the connection for a failed operation
+   * @param signal - Optional signal to cancel the connection attempt
+   */
+  private reconnectForOperation(signal?: AbortSignal): Promise<void> {
+    if (this.connectionMode === 'on-demand') {
+      return this.connectOnDemand(signal);
     }
+    return this.attemptReconnection();
+  }
+
+  /**
+   * Connect for a command in on-demand mode, the connection takes one of the slots of the connection limit
+   * @param signal - Optional signal to cancel the connection attempt
+   */
+  private async connectOnDemand(signal?: AbortSignal): Promise<void> {
+    if (!this.isActive()) {
+      this.connectionSlotCheck?.();
+    }
+    await this.connectPeripheral(this.targetPeripheral, signal);
+  }
+
+  /**
+   * Run a queued operation, connecting first in on-demand mode
+   * The idle disconnect is postponed while the operation runs and restarted afterwards.
+   * @param operation - Description of the operation for logging
+   * @param fallback - Result returned if the lamp cannot be connected
+   * @param execute - Runs the operation
+   * @param signal - Optional signal to cancel the connection attempt
+   */
+  private async withConnection<T>(
+    operation: string,
+    fallback: T,
+    execute: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (this.connectionMode !== 'on-demand') {
+      return execute();
+    }
+
+    this.clearIdleDisconnect();
+    try {
+      if (!this.isConnected && this.targetPeripheral) {
+        this.log.debug(`${operation} - Connecting on demand...`);
+        await this.connectOnDemand(signal);
+      }
+      return await execute();
+    } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
+      this.log.error(`${operation} - Failed to connect on demand: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return fallback;
+    } finally {
+      if (this.isConnected) {
+        this.scheduleIdleDisconnect();
+      }
+    }
+  }
+
+  /**
+   * Disconnect after the idle delay unless another command arrives first
+   */
+  private scheduleIdleDisconnect(): void {
+    this.clearIdleDisconnect();
+    this.idleDisconnectTimer = setTimeout(() => {
+      this.idleDisconnectTimer = null;
+      if (this.operationQueue.getPendingCount() > 0) {
+        return;
+      }
+      if (this.peripheral && this.isConnected) {
+        this.log.debug(`Disconnecting idle device: ${this.peripheral.address}`);
+        this.pendingDisconnectReason = 'Idle disconnect';
+        this.peripheral.disconnect();
+      }
+    }, this.idleDisconnectDelayMs);
+  }
+
+  private clearIdleDisconnect(): void {
+    if (this.idleDisconnectTimer) {
+      clearTimeout(this.idleDisconnectTimer);
+      this.idleDisconnectTimer = null;
+    }
+  }
+
+  /**
+   * Run a single reconnection attempt, scheduling the next one if it fails
+   */
+  private async reconnect(): Promise<void> {
+    if (this.isReconnecting || !this.targetPeripheral || !this.shouldReconnect()) {
+      return;
+    }
+
+    this.isReconnecting = true;
+    this.reconnectionAttempts++;
+
+    if (this.reconnectionAttempts > this.maxReconnectionAttempts) {
+      this.log.error(`Max reconnection attempts (${this.maxReconnectionAttempts}) reached. Giving up.`);
+      this.isReconnecting = false;
+      // later reconnections for operations are given up as well, but only reported once
+      if (this.reconnectionAttempts === this.maxReconnectionAttempts + 1) {
+        this.emit('gaveUp', this.maxReconnectionAttempts);
+      }
+      return;
+    }
+
+    // only attempts that are actually made are recorded, giving up is not one
+    this.metrics?.reconnectionAttempts.inc({ lamp: this.metricsLamp });
+    this.metrics?.currentReconnectionAttempt.set({ lamp: this.metricsLamp }, this.reconnectionAttempts);
 
     this.log.info(`Reconnection attempt ${this.reconnectionAttempts}/${this.maxReconnectionAttempts} in ${this.reconnectionDelay}ms...`);
+    this.emit('reconnecting', this.reconnectionAttempts, this.reconnectionDelay);
 
     // Wait before attempting reconnection
     await new Promise(resolve => setTimeout(resolve, this.reconnectionDelay));
 
     try {
       // Try to reconnect to the target peripheral
-      await this.connect(this.targetPeripheral);
+      await this.connectPeripheral(this.targetPeripheral);
+      this.updateDiagnostics({ reconnects: this.diagnostics.reconnects + 1 });
       this.log.info('Reconnection successful!');
     } catch (error) {
       this.log.error(`Reconnection attempt ${this.reconnectionAttempts} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -517,13 +1176,41 @@ export class BLEController {
       
       // Schedule next attempt
       setTimeout(() => {
-        if (this.autoReconnectEnabled && !this.isConnected) {
+        if (this.shouldReconnect() && !this.isConnected) {
           this.attemptReconnection();
         }
       }, 1000);
     }
   }
 
+  /**
+   * Start the automatic reconnection over with the full number of attempts, e.g. once the device advertises again
+   * A disconnected device is reconnected right away, as nothing else retries a connection that was given up.
+   */
+  public resetReconnection(): void {
+    this.reconnectionAttempts = 0;
+    this.reconnectionDelay = this.initialReconnectionDelay;
+    this.metrics?.currentReconnectionAttempt.set({ lamp: this.metricsLamp }, 0);
+    if (this.targetPeripheral && !this.isConnected && this.shouldReconnect()) {
+      this.attemptReconnection();
+    }
+  }
+
+  /**
+   * Set the hooks called around every connection attempt
+   */
+  public setConnectionAttemptHooks(hooks: ConnectionAttemptHooks | null): void {
+    this.connectionAttemptHooks = hooks;
+  }
+
+  /**
+   * Set the check for a free connection slot before connecting on demand
+   * @param check - Throws if the connection limit is reached, null to connect without limit
+   */
+  public setConnectionSlotCheck(check: (() => void) | null): void {
+    this.connectionSlotCheck = check;
+  }
+
   /**
    * Enable or disable automatic reconnection
    */
@@ -544,9 +1231,24 @@ export class BLEController {
    */
   public setMaxReconnectionAttempts(attempts: number): void {
     this.maxReconnectionAttempts = Math.max(1, attempts);
+    this.metrics?.maxReconnectionAttempts.set({ lamp: this.metricsLamp }, this.maxReconnectionAttempts);
     this.log.info(`Max reconnection attempts set to: ${this.maxReconnectionAttempts}`);
   }
 
+  /**
+   * Record the metrics of this controller
+   * @param metrics - The shared metrics, null to stop recording
+   * @param lamp - The address of the device, used as the lamp label, empty for the scanner
+   */
+  public setMetrics(metrics: BLEMetrics | null, lamp: string): void {
+    this.metrics = metrics;
+    this.metricsLamp = lamp;
+    // the scanner has no device and never reconnects
+    if (lamp) {
+      this.metrics?.maxReconnectionAttempts.set({ lamp }, this.maxReconnectionAttempts);
+    }
+  }
+
   /**
    * Set connection monitor interval
    */
@@ -567,23 +1269,83 @@ export class BLEController {
    * Set initial reconnection delay
    */
   public setInitialReconnectionDelay(delayMs: number): void {
-    this.reconnectionDelay = Math.max(500, delayMs);
-    this.log.info(`Initial reconnection delay set to: ${this.reconnectionDelay}ms`);
+    this.initialReconnectionDelay = Math.max(500, delayMs);
+    this.reconnectionDelay = this.initialReconnectionDelay;
+    this.log.info(`Initial reconnection delay set to: ${this.initialReconnectionDelay}ms`);
+  }
+
+  /**
+   * Set how the connection to the lamp is held
+   */
+  public setConnectionMode(mode: ConnectionMode): void {
+    this.connectionMode = mode;
+    this.log.info(`Connection mode set to: ${mode}`);
+
+    if (mode === 'persistent') {
+      this.clearIdleDisconnect();
+      if (this.isConnected) {
+        this.startConnectionMonitoring();
+      }
+    } else {
+      this.stopConnectionMonitoring();
+      if (this.isConnected) {
+        this.scheduleIdleDisconnect();
+      }
+    }
+  }
+
+  /**
+   * Get the connection mode
+   */
+  public getConnectionMode(): ConnectionMode {
+    return this.connectionMode;
   }
 
   /**
-   * Write data to the selected characteristic with retry logic
+   * Set the time the lamp stays connected after the last command in on-demand mode
+   */
+  public setIdleDisconnectDelay(delaySeconds: number): void {
+    this.idleDisconnectDelayMs = Math.max(1, delaySeconds) * 1000;
+    this.log.debug(`Idle disconnect delay set to: ${delaySeconds} seconds`);
+  }
+
+  /**
+   * Set the timeouts of the BLE operations
+   */
+  public setOperationTimeouts(timeouts: OperationTimeouts): void {
+    this.operationTimeouts = {
+      connect: Math.max(1000, timeouts.connect),
+      discover: Math.max(1000, timeouts.discover),
+      read: Math.max(500, timeouts.read),
+      write: Math.max(500, timeouts.write),
+    };
+    this.log.debug(
+      `Operation timeouts set to: connect ${this.operationTimeouts.connect}ms, discover ${this.operationTimeouts.discover}ms, ` +
+      `read ${this.operationTimeouts.read}ms, write ${this.operationTimeouts.write}ms`,
+    );
+  }
+
+  /**
+   * Write data to one of the lamp characteristics with retry logic
+   * @param target - The lamp characteristic to write to
    * @param data - The data to write
    * @param operation - Description of the operation for logging
+   * @param signal - Optional signal to cancel the write
    * @param retryCount - Current retry attempt (internal use)
    * @returns Promise resolving when write is complete
    */
-  private async writeToSelectedCharacteristic(
+  private async writeToLampCharacteristic(
+    target: LampCharacteristic,
     data: Buffer,
     operation: string,
+    signal?: AbortSignal,
     retryCount = 0,
   ): Promise<boolean> {
     const maxRetries = 3;
+
+    if (signal?.aborted) {
+      throw new BLEAbortError(operation);
+    }
     
     // Check connection status first
     if (!this.isConnected || !this.peripheral) {
@@ -591,12 +1353,12 @@ export class BLEController {
       
       if (this.autoReconnectEnabled && this.targetPeripheral && retryCount < maxRetries) {
         try {
-          await this.attemptReconnection();
+          await this.reconnectForOperation(signal);
           // Wait a bit for connection to stabilize
           await new Promise(resolve => setTimeout(resolve, 1000));
           
           // Retry the write operation
-          return this.writeToSelectedCharacteristic(data, operation, retryCount + 1);
+          return this.writeToLampCharacteristic(target, data, operation, signal, retryCount + 1);
         } catch (error) {
           this.log.error(`Failed to reconnect for ${operation}: ${error instanceof Error ? error.message : 'Unknown error'}`);
           return false;
@@ -607,75 +1369,114 @@ export class BLEController {
       }
     }
 
-    if (!this.selectedCharacteristic) {
-      this.log.error(`${operation} - No characteristic selected for lamp control`);
+    const char = typeof target === 'number'
+      ? this.channelCharacteristics[target]
+      : target === 'control' ? this.selectedCharacteristic : this.boundCharacteristics.get(target);
+    if (!char) {
+      this.log.error(
+        typeof target === 'number'
+          ? `${operation} - Device has no characteristic for channel ${target + 1}`
+          : target === 'control'
+            ? `${operation} - No characteristic selected for lamp control`
+            : target === 'brightness'
+              ? `${operation} - Lamp does not support dimming`
+              : `${operation} - Device has no ${target} characteristic`,
+      );
       return false;
     }
 
-    return new Promise((resolve) => {
-      const char = this.selectedCharacteristic;
-      this.log.info(`${operation} - Writing to selected characteristic...`);
-      this.log.info(
-        `Writing to characteristic ${char.uuid}: ${data.toString('hex')}`,
-      );
+    const targetName = typeof target === 'number' ? `channel ${target + 1}` : target === 'control' ? 'selected' : target;
+    this.log.info(`${operation} - Writing to ${targetName} characteristic...`);
+    this.log.info(
+      `Writing to characteristic ${char.uuid}: ${data.toString('hex')}`,
+    );
 
-      if (!char.write) {
-        this.log.error(
-          `Characteristic ${char.uuid} does not have write method`,
-        );
-        resolve(false);
-        return;
-      }
+    if (!char.write) {
+      this.log.error(
+        `Characteristic ${char.uuid} does not have write method`,
+      );
+      return false;
+    }
 
+    const startedAt = Date.now();
+    try {
       // Use writeWithoutResponse (false) as per the working script
-      char.write(data, false, async (error: Error | null) => {
-        if (error) {
-          this.log.error(
-            `Error writing to characteristic ${char.uuid}: ${error.message}`,
-          );
-          
-          // If write failed and we haven't exceeded retry limit, try to reconnect and retry
-          if (retryCount < maxRetries && this.autoReconnectEnabled && this.targetPeripheral) {
-            this.log.info(`${operation} - Retrying write operation (attempt ${retryCount + 1}/${maxRetries})...`);
-            
-            // Mark as disconnected to trigger reconnection
-            this.isConnected = false;
-            
-            try {
-              await this.attemptReconnection();
-              // Wait a bit for connection to stabilize
-              await new Promise(resolve => setTimeout(resolve, 1000));
-              
-              // Retry the write operation
-              const retryResult = await this.writeToSelectedCharacteristic(data, operation, retryCount + 1);
-              resolve(retryResult);
-            } catch (reconnectError) {
-              this.log.error(`Failed to reconnect for retry: ${reconnectError instanceof Error ? reconnectError.message : 'Unknown error'}`);
-              resolve(false);
-            }
+      await this.runWithTimeout<void>('write', `Write to characteristic ${char.uuid}`, (resolve, reject) => {
+        char.write(data, false, (error: Error | null) => {
+          if (error) {
+            reject(error);
           } else {
-            resolve(false);
+            resolve();
           }
-        } else {
-          this.log.info(`Successfully wrote to characteristic ${char.uuid}`);
-          resolve(true);
+        });
+      }, signal);
+      this.updateDiagnostics({ writeLatency: Date.now() - startedAt, lastSeen: Date.now() });
+      this.metrics?.recordOperation(this.metricsLamp, 'write', true, startedAt);
+      this.log.info(`Successfully wrote to characteristic ${char.uuid}`);
+      return true;
+    } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
+      this.metrics?.recordOperation(this.metricsLamp, 'write', false, startedAt);
+      this.reportFailure('write', error);
+      this.log.error(
+        `Error writing to characteristic ${char.uuid}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      if (error instanceof BLETimeoutError) {
+        this.tearDownConnection(this.peripheral, error);
+      }
+      
+      // If write failed and we haven't exceeded retry limit, try to reconnect and retry
+      if (retryCount < maxRetries && this.autoReconnectEnabled && this.targetPeripheral) {
+        this.log.info(`${operation} - Retrying write operation (attempt ${retryCount + 1}/${maxRetries})...`);
+        
+        // Mark as disconnected to trigger reconnection
+        this.isConnected = false;
+        
+        try {
+          await this.reconnectForOperation(signal);
+          // Wait a bit for connection to stabilize
+          await new Promise(resolve => setTimeout(resolve, 1000));
+          
+          // Retry the write operation
+          return await this.writeToLampCharacteristic(target, data, operation, signal, retryCount + 1);
+        } catch (reconnectError) {
+          if (reconnectError instanceof BLEAbortError) {
+            throw reconnectError;
+          }
+          this.log.error(`Failed to reconnect for retry: ${reconnectError instanceof Error ? reconnectError.message : 'Unknown error'}`);
+          return false;
         }
-      });
-    });
+      }
+      return false;
+    }
   }
 
   /**
    * Turn the lamp ON
+   * @param signal - Optional signal to cancel the operation, rejecting with a BLEAbortError
    * @returns Promise resolving to true if successful
    */
-  public async turnLampOn(): Promise<boolean> {
+  public async turnLampOn(signal?: AbortSignal): Promise<boolean> {
     this.log.info('Turning lamp ON...');
     try {
-      return await this.writeToSelectedCharacteristic(
-        Buffer.from([0x01]),
+      return await this.operationQueue.enqueue(
+        'write',
         'Turn lamp ON',
+        () => this.withConnection(
+          'Turn lamp ON',
+          false,
+          () => this.writeToLampCharacteristic('control', (this.bindings.on?.codec ?? ON_OFF_CODEC).encode(true), 'Turn lamp ON', signal),
+          signal,
+        ),
+        'write:control',
+        signal,
       );
     } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
       this.log.error(
         `Failed to turn lamp ON: ${
           error instanceof Error ? error.message : 'Unknown error'
@@ -687,16 +1488,28 @@ export class BLEController {
 
   /**
    * Turn the lamp OFF
+   * @param signal - Optional signal to cancel the operation, rejecting with a BLEAbortError
    * @returns Promise resolving to true if successful
    */
-  public async turnLampOff(): Promise<boolean> {
+  public async turnLampOff(signal?: AbortSignal): Promise<boolean> {
     this.log.info('Turning lamp OFF...');
     try {
-      return await this.writeToSelectedCharacteristic(
-        Buffer.from([0x00]),
+      return await this.operationQueue.enqueue(
+        'write',
         'Turn lamp OFF',
+        () => this.withConnection(
+          'Turn lamp OFF',
+          false,
+          () => this.writeToLampCharacteristic('control', (this.bindings.on?.codec ?? ON_OFF_CODEC).encode(false), 'Turn lamp OFF', signal),
+          signal,
+        ),
+        'write:control',
+        signal,
       );
     } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
       this.log.error(
         `Failed to turn lamp OFF: ${
           error instanceof Error ? error.message : 'Unknown error'
@@ -706,6 +1519,198 @@ export class BLEController {
     }
   }
 
+  /**
+   * Set the lamp brightness
+   * @param brightness - Brightness in percent (0-100)
+   * @param signal - Optional signal to cancel the operation, rejecting with a BLEAbortError
+   * @returns Promise resolving to true if successful
+   */
+  public async setBrightness(brightness: number, signal?: AbortSignal): Promise<boolean> {
+    this.log.info(`Setting lamp brightness to ${brightness}%...`);
+    try {
+      return await this.operationQueue.enqueue(
+        'write',
+        `Set brightness to ${brightness}%`,
+        () => this.withConnection(
+          `Set brightness to ${brightness}%`,
+          false,
+          () => this.writeToLampCharacteristic(
+            'brightness',
+            (this.bindings.brightness?.codec ?? LEVEL_CODEC).encode(brightness),
+            `Set brightness to ${brightness}%`,
+            signal,
+          ),
+          signal,
+        ),
+        'write:level',
+        signal,
+      );
+    } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
+      this.log.error(
+        `Failed to set brightness: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Switch one channel of a multi-channel device
+   * Writes to different channels are queued independently, a pending write to the same channel is replaced.
+   * @param channel - Zero based channel index
+   * @param on - The new state of the channel
+   * @param signal - Optional signal to cancel the operation, rejecting with a BLEAbortError
+   * @returns Promise resolving to true if successful
+   */
+  public async setChannelState(channel: number, on: boolean, signal?: AbortSignal): Promise<boolean> {
+    const operation = `Turn channel ${channel + 1} ${on ? 'ON' : 'OFF'}`;
+    this.log.info(`${operation}...`);
+    const binding = this.bindings.channels?.[channel];
+    if (!binding) {
+      this.log.error(`${operation} - Device profile has no channel ${channel + 1}`);
+      return false;
+    }
+
+    try {
+      return await this.operationQueue.enqueue(
+        'write',
+        operation,
+        () => this.withConnection(
+          operation,
+          false,
+          () => this.writeToLampCharacteristic(channel, binding.codec.encode(on), operation, signal),
+          signal,
+        ),
+        `write:channel:${channel}`,
+        signal,
+      );
+    } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
+      this.log.error(`${operation} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }
+
+  /**
+   * Get the number of channels of a multi-channel device, 0 for single-channel devices
+   */
+  public getChannelCount(): number {
+    return this.bindings.channels?.length ?? 0;
+  }
+
+  /**
+   * Send a movement command to a window covering
+   * @param command - Open, close or stop
+   * @param signal - Optional signal to cancel the operation, rejecting with a BLEAbortError
+   * @returns Promise resolving to true if successful
+   */
+  public async sendShutterCommand(command: ShutterCommand, signal?: AbortSignal): Promise<boolean> {
+    return this.enqueueBindingWrite('command', command, `Send shutter command ${command.toUpperCase()}`, signal);
+  }
+
+  /**
+   * Move a window covering to a position
+   * @param position - Target position in percent open (0-100)
+   * @param signal - Optional signal to cancel the operation, rejecting with a BLEAbortError
+   * @returns Promise resolving to true if successful
+   */
+  public async setTargetPosition(position: number, signal?: AbortSignal): Promise<boolean> {
+    return this.enqueueBindingWrite('targetPosition', position, `Set target position to ${position}%`, signal);
+  }
+
+  /**
+   * Check whether the connected device exposes the characteristic of a binding
+   */
+  public hasBinding(role: BindingRole): boolean {
+    return this.boundCharacteristics.has(role);
+  }
+
+  /**
+   * Queue a write of a bound characteristic, replacing a pending write to the same characteristic
+   */
+  private async enqueueBindingWrite<K extends BindingRole>(
+    role: K,
+    value: BindingValue<K>,
+    operation: string,
+    signal?: AbortSignal,
+  ): Promise<boolean> {
+    this.log.info(`${operation}...`);
+    const binding = this.bindings[role] as CharacteristicBinding<BindingValue<K>> | undefined;
+    if (!binding) {
+      this.log.error(`${operation} - Device profile has no ${role} characteristic`);
+      return false;
+    }
+
+    try {
+      return await this.operationQueue.enqueue(
+        'write',
+        operation,
+        () => this.withConnection(
+          operation,
+          false,
+          () => this.writeToLampCharacteristic(role, binding.codec.encode(value), operation, signal),
+          signal,
+        ),
+        `write:${role}`,
+        signal,
+      );
+    } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
+      this.log.error(`${operation} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  }
+
+  /**
+   * Check if the connected lamp supports dimming
+   */
+  public supportsDimming(): boolean {
+    return this.boundCharacteristics.has('brightness');
+  }
+
+  /**
+   * Encode a brightness percentage as a level value (0x00-0xFF)
+   * @param brightness - Brightness in percent (0-100)
+   */
+  public static encodeBrightness(brightness: number): Buffer {
+    return LEVEL_CODEC.encode(brightness);
+  }
+
+  /**
+   * Decode a level value (0x00-0xFF) as a brightness percentage
+   * @param data - The raw level characteristic value
+   * @returns Brightness in percent (0-100), null if the data is empty
+   */
+  public static decodeBrightness(data: Buffer): number | null {
+    return LEVEL_CODEC.decode(data);
+  }
+
+  /**
+   * Set the characteristics and codecs of the device model, applied on the next connection
+   * @param bindings - The bindings of the device profile
+   */
+  public setBindings(bindings: DeviceBindings): void {
+    this.bindings = bindings;
+    this.controlCharacteristicUuid = bindings.on?.uuid ?? null;
+  }
+
+  /**
+   * Set the UUID of the characteristic selected automatically for lamp control on connection
+   * @param characteristicUuid - The characteristic UUID, with or without dashes
+   */
+  public setControlCharacteristicUuid(characteristicUuid: string): void {
+    this.controlCharacteristicUuid = characteristicUuid.replace(/-/g, '').toLowerCase();
+    this.log.info(`Lamp control characteristic UUID set to: ${this.controlCharacteristicUuid}`);
+  }
+
   /**
    * Set the selected characteristic for lamp control
    * @param characteristicUuid - The UUID of the characteristic to use
@@ -753,11 +1758,53 @@ export class BLEController {
     return this.peripheral;
   }
 
+  /**
+   * Get the time the connection was lost or first failed
+   * @returns Epoch milliseconds, null while connected or before the first connection attempt
+   */
+  public getDisconnectedSince(): number | null {
+    return this.isConnected ? null : this.disconnectedSince;
+  }
+
+  /**
+   * Check if automatic reconnection has failed and was given up
+   */
+  public hasGivenUp(): boolean {
+    return !this.isConnected && this.targetPeripheral !== null && this.reconnectionAttempts > this.maxReconnectionAttempts;
+  }
+
+  /**
+   * Check if this controller holds a connection slot (connected, connecting or still trying to reconnect)
+   */
+  public isActive(): boolean {
+    if (this.isConnected || this.pendingConnectionAttempts > 0) {
+      return true;
+    }
+    return this.targetPeripheral !== null &&
+      this.shouldReconnect() &&
+      this.reconnectionAttempts <= this.maxReconnectionAttempts;
+  }
+
   /**
    * Read the current state of the lamp from the characteristic
+   * The read is queued behind pending writes, concurrent reads share one request.
+   * @param signal - Optional signal to cancel the read, rejecting with a BLEAbortError
    * @returns Promise resolving to the lamp state (true for on, false for off, null if error)
    */
-  public async readLampState(): Promise<boolean | null> {
+  public async readLampState(signal?: AbortSignal): Promise<boolean | null> {
+    return this.operationQueue.enqueue(
+      'poll',
+      'Read lamp state',
+      () => this.withConnection('Read lamp state', null, () => this.readLampStateNow(signal), signal),
+      'read:control',
+      signal,
+    );
+  }
+
+  /**
+   * Read the lamp state, bypassing the operation queue
+   */
+  private async readLampStateNow(signal?: AbortSignal): Promise<boolean | null> {
     this.log.info('Reading lamp state...');
     
     // Check connection status first
@@ -771,34 +1818,234 @@ export class BLEController {
       return null;
     }
 
-    return new Promise((resolve) => {
-      const char = this.selectedCharacteristic;
-      this.log.info(`Reading from characteristic ${char.uuid}...`);
+    const char = this.selectedCharacteristic;
+    this.log.info(`Reading from characteristic ${char.uuid}...`);
 
-      if (!char.read) {
-        this.log.error(`Characteristic ${char.uuid} does not have read method`);
-        resolve(null);
-        return;
+    if (!char.read) {
+      this.log.error(`Characteristic ${char.uuid} does not have read method`);
+      return null;
+    }
+
+    const data = await this.readCharacteristic(char, signal);
+    if (data === null) {
+      return null;
+    }
+    this.log.info(`Successfully read from characteristic ${char.uuid}: ${data.toString('hex')}`);
+    return this.decodeLampState(data);
+  }
+
+  /**
+   * Read the current brightness of the lamp from the level characteristic
+   * The read is queued behind pending writes, concurrent reads share one request.
+   * @param signal - Optional signal to cancel the read, rejecting with a BLEAbortError
+   * @returns Promise resolving to the brightness in percent (null if error or not dimmable)
+   */
+  public async readBrightness(signal?: AbortSignal): Promise<number | null> {
+    return this.operationQueue.enqueue(
+      'poll',
+      'Read lamp brightness',
+      () => this.withConnection('Read lamp brightness', null, () => this.readBrightnessNow(signal), signal),
+      'read:level',
+      signal,
+    );
+  }
+
+  /**
+   * Read the lamp brightness, bypassing the operation queue
+   */
+  private async readBrightnessNow(signal?: AbortSignal): Promise<number | null> {
+    this.log.info('Reading lamp brightness...');
+
+    if (!this.isConnected || !this.peripheral) {
+      this.log.warn('Read lamp brightness - Not connected to device');
+      return null;
+    }
+
+    const char = this.boundCharacteristics.get('brightness');
+    if (!char) {
+      this.log.warn('Read lamp brightness - Lamp does not support dimming');
+      return null;
+    }
+
+    const data = await this.readCharacteristic(char, signal);
+    if (data === null) {
+      return null;
+    }
+    const brightness = (this.bindings.brightness?.codec ?? LEVEL_CODEC).decode(data);
+    this.log.info(`Lamp brightness: ${brightness === null ? 'unknown' : `${brightness}%`}`);
+    return brightness;
+  }
+
+  /**
+   * Read the state of one channel of a multi-channel device
+   * The read is queued behind pending writes, concurrent reads of the same channel share one request.
+   * @param channel - Zero based channel index
+   * @param signal - Optional signal to cancel the read, rejecting with a BLEAbortError
+   * @returns Promise resolving to the channel state (true for on, false for off, null if error)
+   */
+  public async readChannelState(channel: number, signal?: AbortSignal): Promise<boolean | null> {
+    const operation = `Read channel ${channel + 1} state`;
+    return this.operationQueue.enqueue(
+      'poll',
+      operation,
+      () => this.withConnection(operation, null, () => this.readChannelStateNow(channel, signal), signal),
+      `read:channel:${channel}`,
+      signal,
+    );
+  }
+
+  /**
+   * Read the state of a channel, bypassing the operation queue
+   */
+  private async readChannelStateNow(channel: number, signal?: AbortSignal): Promise<boolean | null> {
+    if (!this.isConnected || !this.peripheral) {
+      this.log.warn(`Read channel ${channel + 1} state - Not connected to device`);
+      return null;
+    }
+
+    const char = this.channelCharacteristics[channel];
+    const binding = this.bindings.channels?.[channel];
+    if (!char || !binding) {
+      this.log.warn(`Read channel ${channel + 1} state - Device has no characteristic for channel ${channel + 1}`);
+      return null;
+    }
+
+    const data = await this.readCharacteristic(char, signal);
+    if (data === null) {
+      return null;
+    }
+    const isOn = binding.codec.decode(data);
+    this.log.info(`Channel ${channel + 1} state: ${isOn === null ? 'unknown' : isOn ? 'ON' : 'OFF'}`);
+    return isOn;
+  }
+
+  /**
+   * Read the current position of a window covering
+   * The read is queued behind pending writes, concurrent reads share one request.
+   * @param signal - Optional signal to cancel the read, rejecting with a BLEAbortError
+   * @returns Promise resolving to the position in percent open (null if error or no position characteristic)
+   */
+  public async readPosition(signal?: AbortSignal): Promise<number | null> {
+    return this.operationQueue.enqueue(
+      'poll',
+      'Read position',
+      () => this.withConnection('Read position', null, () => this.readPositionNow(signal), signal),
+      'read:position',
+      signal,
+    );
+  }
+
+  /**
+   * Read the window covering position, bypassing the operation queue
+   */
+  private async readPositionNow(signal?: AbortSignal): Promise<number | null> {
+    if (!this.isConnected || !this.peripheral) {
+      this.log.warn('Read position - Not connected to device');
+      return null;
+    }
+
+    const char = this.boundCharacteristics.get('position');
+    if (!char) {
+      this.log.warn('Read position - Device has no position characteristic');
+      return null;
+    }
+
+    const data = await this.readCharacteristic(char, signal);
+    if (data === null) {
+      return null;
+    }
+    const position = this.bindings.position!.codec.decode(data);
+    this.log.info(`Position: ${position === null ? 'unknown' : `${position}%`}`);
+    return position;
+  }
+
+  /**
+   * Export the services, characteristics, descriptors and readable values of the connected peripheral
+   * The export is queued like a poll, so that it does not interleave with lamp commands.
+   * @param signal - Optional signal to cancel the export, rejecting with a BLEAbortError
+   * @returns Promise resolving to the GATT profile, null if not connected or the export failed
+   */
+  public async exportGattProfile(signal?: AbortSignal): Promise<GattProfile | null> {
+    return this.operationQueue.enqueue(
+      'poll',
+      'Export GATT profile',
+      () => this.withConnection('Export GATT profile', null, () => this.exportGattProfileNow(signal), signal),
+      'read:profile',
+      signal,
+    );
+  }
+
+  /**
+   * Export the GATT profile, bypassing the operation queue
+   */
+  private async exportGattProfileNow(signal?: AbortSignal): Promise<GattProfile | null> {
+    if (!this.isConnected || !this.peripheral) {
+      this.log.warn('Export GATT profile - Not connected to device');
+      return null;
+    }
+
+    try {
+      const profile = await readGattProfile(this.peripheral, (operation, executor) =>
+        this.runWithTimeout('read', operation, executor, signal));
+      this.log.info(`Exported GATT profile of ${profile.address} with ${profile.services.length} services`);
+      return profile;
+    } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
       }
+      this.log.error(`Error exporting GATT profile: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
 
-      char.read((error: Error | null, data: Buffer) => {
-        if (error) {
-          this.log.error(`Error reading from characteristic ${char.uuid}: ${error.message}`);
-          resolve(null);
-        } else {
-          this.log.info(`Successfully read from characteristic ${char.uuid}: ${data.toString('hex')}`);
-          
-          // Parse the data - assuming 0x01 means ON, 0x00 means OFF
-          if (data.length > 0) {
-            const isOn = data[0] === 0x01;
-            this.log.info(`Lamp state: ${isOn ? 'ON' : 'OFF'}`);
-            resolve(isOn);
+  /**
+   * Read the raw value of a characteristic
+   * A read that times out tears down the connection, so that the reconnect logic takes over.
+   * @param char - The characteristic to read
+   * @param signal - Optional signal to cancel the read
+   * @returns Promise resolving to the value, null if the read failed
+   */
+  private async readCharacteristic(char: any, signal?: AbortSignal): Promise<Buffer | null> {
+    const startedAt = Date.now();
+    try {
+      const data = await this.runWithTimeout<Buffer>('read', `Read from characteristic ${char.uuid}`, (resolve, reject) => {
+        char.read((error: Error | null, data: Buffer) => {
+          if (error) {
+            reject(error);
           } else {
-            this.log.error('Received empty data from characteristic');
-            resolve(null);
+            resolve(data);
           }
-        }
-      });
-    });
+        });
+      }, signal);
+      this.updateDiagnostics({ lastSeen: Date.now() });
+      this.metrics?.recordOperation(this.metricsLamp, 'read', true, startedAt);
+      return data;
+    } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
+      this.metrics?.recordOperation(this.metricsLamp, 'read', false, startedAt);
+      this.reportFailure('read', error);
+      this.log.error(`Error reading from characteristic ${char.uuid}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof BLETimeoutError && this.peripheral) {
+        this.tearDownConnection(this.peripheral, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Decode the lamp state from control characteristic data with the codec of the on binding
+   * @param data - The raw characteristic value
+   * @returns true for on, false for off, null if the data cannot be decoded
+   */
+  private decodeLampState(data: Buffer): boolean | null {
+    const isOn = (this.bindings.on?.codec ?? ON_OFF_CODEC).decode(data);
+    if (isOn !== null) {
+      this.log.info(`Lamp state: ${isOn ? 'ON' : 'OFF'}`);
+      return isOn;
+    }
+    this.log.error(`Cannot decode lamp state from characteristic data: ${data.toString('hex') || 'empty'}`);
+    return null;
   }
 }
@@ -0,0 +1,76 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+
+/**
+ * BLE Transport
+ * The part of the noble API used by the BLEController. Peripherals, services and
+ * characteristics handed out by a transport follow the noble object shapes, so the
+ * controller works the same on a real adapter and on the simulated backend.
+ */
+export interface BLETransport {
+  /**
+   * Adapter state, 'poweredOn' when the transport is ready
+   */
+  readonly state: string;
+
+  /**
+   * Whether a scan is currently running
+   */
+  readonly scanning: boolean;
+
+  /**
+   * Load the backend, must be called before any other method
+   */
+  open(): Promise<void>;
+
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+  startScanning(serviceUuids?: string[], allowDuplicates?: boolean): void;
+  stopScanning(): void;
+}
+
+/**
+ * Transport backed by a real HCI adapter through @abandonware/noble
+ * Noble is only loaded in open(), so that machines without Bluetooth support can
+ * still load the plugin and use another transport.
+ */
+export class NobleTransport implements BLETransport {
+  private noble: any = null;
+
+  public async open(): Promise<void> {
+    if (!this.noble) {
+      const module = await import('@abandonware/noble');
+      this.noble = module.default ?? module;
+    }
+  }
+
+  public get state(): string {
+    return this.noble?.state ?? 'unknown';
+  }
+
+  public get scanning(): boolean {
+    return this.noble?.scanning ?? false;
+  }
+
+  public on(event: string, listener: (...args: any[]) => void): void {
+    this.getNoble().on(event, listener);
+  }
+
+  public removeListener(event: string, listener: (...args: any[]) => void): void {
+    this.getNoble().removeListener(event, listener);
+  }
+
+  public startScanning(serviceUuids: string[] = [], allowDuplicates = false): void {
+    this.getNoble().startScanning(serviceUuids, allowDuplicates);
+  }
+
+  public stopScanning(): void {
+    this.getNoble().stopScanning();
+  }
+
+  private getNoble(): any {
+    if (!this.noble) {
+      throw new Error('Noble BLE library is not available');
+    }
+    return this.noble;
+  }
+}
@@ -0,0 +1,163 @@
+import {
+  LAMP_CONTROL_CHARACTERISTIC_UUID,
+  LAMP_LEVEL_CHARACTERISTIC_UUID,
+  SHUTTER_COMMAND_CHARACTERISTIC_UUID,
+  SHUTTER_POSITION_CHARACTERISTIC_UUID,
+  SHUTTER_TARGET_CHARACTERISTIC_UUID,
+} from './settings.js';
+
+/**
+ * Converts between a characteristic value and the state it represents
+ */
+export interface StateCodec<T> {
+  /**
+   * Encode a state for writing
+   */
+  encode(value: T): Buffer;
+
+  /**
+   * Decode a read or notified value
+   * @returns The state, null if the data cannot be decoded
+   */
+  decode(data: Buffer): T | null;
+}
+
+/**
+ * On/off state as a single byte, 0x01 for on and anything else for off
+ */
+export const ON_OFF_CODEC: StateCodec<boolean> = {
+  encode: (on) => Buffer.from([on ? 0x01 : 0x00]),
+  decode: (data) => (data.length > 0 ? data[0] === 0x01 : null),
+};
+
+/**
+ * Percentage (0-100) as a single level byte (0x00-0xFF)
+ * Unverified: the level format of the dimmer models is assumed, not confirmed on a real dimmer.
+ */
+export const LEVEL_CODEC: StateCodec<number> = {
+  encode: (percent) => Buffer.from([Math.round((Math.min(100, Math.max(0, percent)) * 0xff) / 100)]),
+  decode: (data) => (data.length > 0 ? Math.round((data[0] * 100) / 0xff) : null),
+};
+
+/**
+ * Position in percent open (0-100) as a single byte
+ * Unverified: the position format of the shutters is assumed, not confirmed on a real shutter.
+ */
+export const POSITION_CODEC: StateCodec<number> = {
+  encode: (percent) => Buffer.from([Math.round(Math.min(100, Math.max(0, percent)))]),
+  decode: (data) => (data.length > 0 ? Math.min(100, data[0]) : null),
+};
+
+/**
+ * On/off state of one channel of a device switching several loads through one characteristic
+ * Writes carry the channel index before the state byte, reads and notifications hold one state byte per channel.
+ * Unverified: this payload is assumed, not confirmed on a real double switch. Channels with a characteristic of their own
+ * are configured with the `channels` device option and use the plain on/off byte instead.
+ * @param index - Zero based channel index
+ */
+export function indexedChannelCodec(index: number): StateCodec<boolean> {
+  return {
+    encode: (on) => Buffer.from([index, on ? 0x01 : 0x00]),
+    decode: (data) => (data.length > index ? data[index] === 0x01 : null),
+  };
+}
+
+/**
+ * Movement commands of window coverings
+ */
+export type ShutterCommand = 'stop' | 'open' | 'close';
+
+/**
+ * Shutter command as a single byte, 0x00 for stop, 0x01 for open and 0x02 for close
+ * Unverified: the command values are assumed, not confirmed on a real shutter.
+ */
+export const SHUTTER_COMMAND_CODEC: StateCodec<ShutterCommand> = {
+  encode: (command) => Buffer.from([command === 'open' ? 0x01 : command === 'close' ? 0x02 : 0x00]),
+  decode: (data) => {
+    if (data.length === 0) {
+      return null;
+    }
+    return data[0] === 0x01 ? 'open' : data[0] === 0x02 ? 'close' : 'stop';
+  },
+};
+
+/**
+ * Characteristic holding one part of the device state, with the codec of its value
+ */
+export interface CharacteristicBinding<T> {
+  uuid: string;
+  codec: StateCodec<T>;
+}
+
+/**
+ * Characteristics the controller reads, writes and subscribes to
+ * Optional bindings are only used when the device exposes the characteristic.
+ */
+export interface DeviceBindings {
+  on?: CharacteristicBinding<boolean>;
+  brightness?: CharacteristicBinding<number>;
+  // Current position of window coverings, notified while moving
+  position?: CharacteristicBinding<number>;
+  // Written to move a window covering to a position
+  targetPosition?: CharacteristicBinding<number>;
+  // Move and stop commands of window coverings
+  command?: CharacteristicBinding<ShutterCommand>;
+  // On/off state of each channel of multi-channel devices, channels may share a characteristic
+  channels?: CharacteristicBinding<boolean>[];
+}
+
+/**
+ * Roles of the bound characteristics besides the lamp control and channel characteristics
+ */
+export type BindingRole = Exclude<keyof DeviceBindings, 'on' | 'channels'>;
+
+/**
+ * Value type of a binding
+ */
+export type BindingValue<K extends keyof DeviceBindings> = NonNullable<DeviceBindings[K]> extends CharacteristicBinding<infer T> ? T : never;
+
+/**
+ * Characteristic UUIDs replacing those of the device model, by binding role
+ */
+export type CharacteristicOverrides = Partial<Record<BindingRole, string>>;
+
+/**
+ * Apply configured characteristic UUIDs to the bindings of a device model, keeping the codecs of the model
+ * @param bindings - The bindings of the device model
+ * @param overrides - UUIDs by binding role, with or without dashes; roles without a binding in the model are ignored
+ */
+export function overrideCharacteristics(bindings: DeviceBindings, overrides?: CharacteristicOverrides): DeviceBindings {
+  const result: DeviceBindings = { ...bindings };
+  for (const [role, uuid] of Object.entries(overrides ?? {}) as [BindingRole, string | undefined][]) {
+    const binding = bindings[role];
+    if (uuid && binding) {
+      (result as Record<BindingRole, CharacteristicBinding<unknown>>)[role] = { ...binding, uuid: uuid.replace(/-/g, '').toLowerCase() };
+    }
+  }
+  return result;
+}
+
+/**
+ * Bindings of the Schneider BLE lamps, the level characteristic only exists on dimmer models
+ */
+export const LAMP_BINDINGS: DeviceBindings = {
+  on: { uuid: LAMP_CONTROL_CHARACTERISTIC_UUID, codec: ON_OFF_CODEC },
+  brightness: { uuid: LAMP_LEVEL_CHARACTERISTIC_UUID, codec: LEVEL_CODEC },
+};
+
+/**
+ * Bindings of the Schneider BLE double switches, both channels are switched through the lamp control characteristic
+ * Unverified: the shared characteristic and its indexed payload are assumptions, see indexedChannelCodec.
+ */
+export const DOUBLE_SWITCH_BINDINGS: DeviceBindings = {
+  channels: [0, 1].map((index) => ({ uuid: LAMP_CONTROL_CHARACTERISTIC_UUID, codec: indexedChannelCodec(index) })),
+};
+
+/**
+ * Bindings of the Schneider BLE shutter actuators, all of them unverified assumptions
+ */
+export const SHUTTER_BINDINGS: DeviceBindings = {
+  position: { uuid: SHUTTER_POSITION_CHARACTERISTIC_UUID, codec: POSITION_CODEC },
+  targetPosition: { uuid: SHUTTER_TARGET_CHARACTERISTIC_UUID, codec: POSITION_CODEC },
+  command: { uuid: SHUTTER_COMMAND_CHARACTERISTIC_UUID, codec: SHUTTER_COMMAND_CODEC },
+};
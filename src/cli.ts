@@ -0,0 +1,355 @@
+#!/usr/bin/env node
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { parseArgs } from 'node:util';
+import type { Logging } from 'homebridge';
+
+import { BLEController } from './bleController.js';
+import type { BLETransport } from './bleTransport.js';
+import { NobleTransport } from './bleTransport.js';
+import type { GattProfile } from './gattProfile.js';
+import { loadGattProfile, saveGattProfile } from './gattProfile.js';
+import { SimulatedTransport } from './simulatedTransport.js';
+import { LAMP_CONTROL_CHARACTERISTIC_UUID, LAMP_LEVEL_CHARACTERISTIC_UUID, LAMP_SERVICE_UUID } from './settings.js';
+
+/**
+ * Exit codes of the command-line tool
+ */
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+const COMMANDS = ['scan', 'on', 'off', 'status', 'gatt', 'export', 'watch'];
+
+const USAGE = `Usage: schneider-ble-lamps <command> [address] [options]
+
+Commands:
+  scan              List nearby BLE devices
+  on <address>      Turn a lamp on
+  off <address>     Turn a lamp off
+  status <address>  Read the state of a lamp
+  gatt <address>    List the GATT characteristics of a device
+  export <address>  Export the GATT profile of a device as JSON
+  watch <address>   Print lamp state changes until interrupted
+
+Options:
+  --json                   Print machine readable JSON
+  --duration <seconds>     Scan duration, also the time to find the lamp (default: 10)
+  --characteristic <uuid>  Lamp control characteristic (default: ${LAMP_CONTROL_CHARACTERISTIC_UUID})
+  --output <file>          Write the exported profile to a file instead of stdout
+  --simulate               Use simulated lamps instead of the Bluetooth adapter
+  --profile <file>         Replay an exported GATT profile as a simulated device, can be repeated
+  --verbose                Print the controller log to stderr
+  --help                   Show this help`;
+
+/**
+ * Command-line options shared by all commands
+ */
+interface CliOptions {
+  json: boolean;
+  duration: number;
+  characteristic?: string;
+  output?: string;
+  simulate: boolean;
+  profiles: GattProfile[];
+  verbose: boolean;
+}
+
+/**
+ * Error printed without a stack trace, with the exit code of the tool
+ */
+class CliError extends Error {
+  constructor(
+    message: string,
+    public readonly exitCode = EXIT_FAILURE,
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+/**
+ * Create a logger writing to stderr, so that stdout only carries the command output
+ * @param verbose - Also print info and debug messages
+ */
+function createLogger(verbose: boolean): Logging {
+  const write = (level: string) => (message: string, ...parameters: any[]) => {
+    process.stderr.write(`[${level}] ${[message, ...parameters].map(String).join(' ')}\n`);
+  };
+  const quiet = () => {};
+  const info = verbose ? write('info') : quiet;
+
+  return Object.assign(info, {
+    prefix: 'cli',
+    info,
+    success: info,
+    warn: write('warn'),
+    error: verbose ? write('error') : quiet,
+    debug: verbose ? write('debug') : quiet,
+    log: (level: string, message: string, ...parameters: any[]) => info(`${level}: ${message}`, ...parameters),
+  }) as unknown as Logging;
+}
+
+/**
+ * Print the command result as JSON or as text
+ */
+function output(options: CliOptions, result: unknown, text: string): void {
+  process.stdout.write(options.json ? `${JSON.stringify(result)}\n` : `${text}\n`);
+}
+
+/**
+ * Command-line tool for scripting and debugging lamps without Homebridge, running on the plugin's BLEController
+ */
+class LampCli {
+  private readonly transport: BLETransport;
+  private readonly scanner: BLEController;
+  private controller: BLEController | null = null;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly options: CliOptions,
+  ) {
+    this.transport = options.simulate || options.profiles.length
+      ? new SimulatedTransport(log, { profiles: options.profiles })
+      : new NobleTransport();
+    this.scanner = new BLEController(log, this.transport);
+  }
+
+  /**
+   * Run a command
+   * @returns The exit code
+   */
+  public async run(command: string, address?: string): Promise<number> {
+    if (!COMMANDS.includes(command)) {
+      throw new CliError(`Unknown command: ${command}`, EXIT_USAGE);
+    }
+    if (command !== 'scan' && !address) {
+      throw new CliError(`The ${command} command needs a lamp address`, EXIT_USAGE);
+    }
+
+    await this.scanner.init();
+
+    switch (command) {
+    case 'scan':
+      return this.scan();
+    case 'on':
+    case 'off':
+      return this.switchLamp(address!, command === 'on');
+    case 'status':
+      return this.status(address!);
+    case 'gatt':
+      return this.gatt(address!);
+    case 'export':
+      return this.exportProfile(address!);
+    case 'watch':
+      return this.watch(address!);
+    default:
+      throw new CliError(`Unknown command: ${command}`, EXIT_USAGE);
+    }
+  }
+
+  /**
+   * Disconnect the lamp connected by the command
+   */
+  public async close(): Promise<void> {
+    await this.controller?.disconnect();
+  }
+
+  private async scan(): Promise<number> {
+    const peripherals = await this.scanner.scanDevices(this.options.duration);
+    const devices = peripherals.map((peripheral) => ({
+      address: peripheral.address,
+      name: peripheral.advertisement?.localName ?? null,
+      rssi: peripheral.rssi,
+      lampService: (peripheral.advertisement?.serviceUuids ?? []).includes(LAMP_SERVICE_UUID),
+    }));
+
+    output(this.options, devices, devices.length
+      ? devices.map((device) =>
+        `${device.address}  ${String(device.rssi).padStart(4)} dBm  ${device.lampService ? 'lamp ' : '     '} ${device.name ?? ''}`,
+      ).join('\n')
+      : 'No devices found');
+    return EXIT_OK;
+  }
+
+  private async switchLamp(address: string, on: boolean): Promise<number> {
+    const controller = await this.connect(address);
+    const success = on ? await controller.turnLampOn() : await controller.turnLampOff();
+    if (!success) {
+      throw new CliError(`Failed to turn ${address} ${on ? 'on' : 'off'}`);
+    }
+
+    output(this.options, { address, on }, `${address} is ${on ? 'on' : 'off'}`);
+    return EXIT_OK;
+  }
+
+  private async status(address: string): Promise<number> {
+    const controller = await this.connect(address);
+    const on = await controller.readLampState();
+    if (on === null) {
+      throw new CliError(`Failed to read the state of ${address}`);
+    }
+    const brightness = controller.supportsDimming() ? await controller.readBrightness() : null;
+
+    output(
+      this.options,
+      { address, on, dimmable: controller.supportsDimming(), brightness },
+      `${address} is ${on ? 'on' : 'off'}${brightness !== null ? `, brightness ${brightness}%` : ''}`,
+    );
+    return EXIT_OK;
+  }
+
+  private async gatt(address: string): Promise<number> {
+    const controller = await this.connect(address);
+    const characteristics = [...controller.getCharacteristics().values()].map((char: any) => ({
+      uuid: char.uuid,
+      handle: char.handle ?? null,
+      properties: char.properties ?? [],
+      role: char.uuid === (this.options.characteristic ?? LAMP_CONTROL_CHARACTERISTIC_UUID)
+        ? 'control'
+        : char.uuid === LAMP_LEVEL_CHARACTERISTIC_UUID ? 'level' : null,
+    }));
+
+    output(this.options, { address, characteristics }, characteristics.map((char) =>
+      `${String(char.handle ?? '-').padStart(5)}  ${char.uuid}  [${char.properties.join(', ')}]${char.role ? `  (${char.role})` : ''}`,
+    ).join('\n'));
+    return EXIT_OK;
+  }
+
+  private async exportProfile(address: string): Promise<number> {
+    const controller = await this.connect(address);
+    const profile = await controller.exportGattProfile();
+    if (!profile) {
+      throw new CliError(`Failed to export the GATT profile of ${address}`);
+    }
+
+    if (this.options.output) {
+      saveGattProfile(this.options.output, profile);
+      output(this.options, { address, output: this.options.output }, `Exported the GATT profile of ${address} to ${this.options.output}`);
+    } else {
+      process.stdout.write(`${JSON.stringify(profile, null, 2)}\n`);
+    }
+    return EXIT_OK;
+  }
+
+  private async watch(address: string): Promise<number> {
+    const controller = await this.connect(address, true);
+    const print = (on: boolean) => {
+      output(this.options, { address, on, time: new Date().toISOString() }, `${new Date().toISOString()}  ${address} is ${on ? 'on' : 'off'}`);
+    };
+
+    const initial = await controller.readLampState();
+    if (initial !== null) {
+      print(initial);
+    }
+    controller.on('stateChanged', (change) => {
+      if (change.kind === 'lamp') {
+        print(change.isOn);
+      }
+    });
+
+    // runs until interrupted, or fails once the controller gives up reconnecting
+    return new Promise((resolve) => {
+      const onSignal = () => resolve(EXIT_OK);
+      process.once('SIGINT', onSignal);
+      process.once('SIGTERM', onSignal);
+
+      controller.once('gaveUp', () => {
+        this.log.warn(`Lost the connection to ${address}`);
+        resolve(EXIT_FAILURE);
+      });
+    });
+  }
+
+  /**
+   * Find a lamp by scanning and connect to it
+   * @param reconnect - Keep reconnecting after the connection is lost, only the watch command runs long enough
+   */
+  private async connect(address: string, reconnect = false): Promise<BLEController> {
+    const peripherals = await this.scanner.scanDevices(this.options.duration, address);
+    const peripheral = peripherals.find((candidate) => candidate.address?.toLowerCase() === address.toLowerCase());
+    if (!peripheral) {
+      throw new CliError(`Lamp ${address} not found within ${this.options.duration} seconds`);
+    }
+
+    this.controller = new BLEController(this.log, this.transport);
+    this.controller.setAutoReconnect(reconnect);
+    if (this.options.characteristic) {
+      this.controller.setControlCharacteristicUuid(this.options.characteristic);
+    }
+    await this.controller.connect(peripheral);
+    return this.controller;
+  }
+}
+
+/**
+ * Parse the arguments, run the command and exit with its code
+ */
+async function main(): Promise<void> {
+  let values: Record<string, string | string[] | boolean | undefined>;
+  let positionals: string[];
+  try {
+    ({ values, positionals } = parseArgs({
+      allowPositionals: true,
+      options: {
+        json: { type: 'boolean', default: false },
+        duration: { type: 'string' },
+        characteristic: { type: 'string' },
+        output: { type: 'string' },
+        simulate: { type: 'boolean', default: false },
+        profile: { type: 'string', multiple: true },
+        verbose: { type: 'boolean', default: false },
+        help: { type: 'boolean', default: false },
+      },
+    }));
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : 'Invalid arguments'}\n\n${USAGE}\n`);
+    process.exit(EXIT_USAGE);
+  }
+
+  const [command, address] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    process.exit(values.help ? EXIT_OK : EXIT_USAGE);
+  }
+
+  let profiles: GattProfile[];
+  try {
+    profiles = ((values.profile as string[] | undefined) ?? []).map((path) => loadGattProfile(path));
+  } catch (error) {
+    process.stderr.write(`Error: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+    process.exit(EXIT_USAGE);
+  }
+
+  const duration = values.duration === undefined ? 10 : Number(values.duration);
+  const options: CliOptions = {
+    json: values.json === true,
+    duration: Number.isFinite(duration) && duration > 0 ? duration : 10,
+    characteristic: values.characteristic as string | undefined,
+    output: values.output as string | undefined,
+    simulate: values.simulate === true,
+    profiles,
+    verbose: values.verbose === true,
+  };
+
+  const cli = new LampCli(createLogger(options.verbose), options);
+  let exitCode: number;
+  try {
+    exitCode = await cli.run(command, address?.toLowerCase());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    exitCode = error instanceof CliError ? error.exitCode : EXIT_FAILURE;
+    if (options.json) {
+      process.stdout.write(`${JSON.stringify({ error: message })}\n`);
+    }
+    process.stderr.write(`Error: ${message}\n`);
+  }
+
+  try {
+    await cli.close();
+  } catch {
+    // the lamp disconnects on its own once the process exits
+  }
+  process.exit(exitCode);
+}
+
+main();
@@ -0,0 +1,217 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Logging } from 'homebridge';
+
+import type { ConnectionAttemptHooks, ConnectionMode, OperationTimeouts } from './bleController.js';
+import { BLEController, DEFAULT_OPERATION_TIMEOUTS } from './bleController.js';
+import type { BLETransport } from './bleTransport.js';
+import type { BLEMetrics } from './metrics.js';
+
+/**
+ * Connection settings applied to every per-device controller
+ */
+export interface ConnectionSettings {
+  autoReconnect: boolean;
+  maxReconnectionAttempts: number;
+  connectionMonitorInterval: number;
+  initialReconnectionDelay: number;
+  operationTimeouts: OperationTimeouts;
+  connectionMode: ConnectionMode;
+  // Seconds a lamp in on-demand mode stays connected after the last command
+  idleDisconnectDelay: number;
+}
+
+/**
+ * BLE Connection Manager
+ * Keeps one BLEController per device address so that every lamp has its own
+ * connection, characteristics, reconnection backoff and health monitor.
+ */
+export class BLEConnectionManager {
+  private readonly log: Logging;
+  private readonly transport: BLETransport;
+  private readonly controllers = new Map<string, BLEController>();
+  // Controller used for adapter initialization and scanning, it never connects
+  private readonly scanner: BLEController;
+  private settings: ConnectionSettings = {
+    autoReconnect: true,
+    maxReconnectionAttempts: 10,
+    connectionMonitorInterval: 10,
+    initialReconnectionDelay: 1000,
+    operationTimeouts: { ...DEFAULT_OPERATION_TIMEOUTS },
+    connectionMode: 'persistent',
+    idleDisconnectDelay: 30,
+  };
+  // Connection modes of devices overriding the platform setting
+  private readonly deviceConnectionModes = new Map<string, ConnectionMode>();
+  private maxConnections = 5;
+  private connectionAttemptHooks: ConnectionAttemptHooks | null = null;
+  private metrics: BLEMetrics | null = null;
+
+  constructor(log: Logging, transport: BLETransport) {
+    this.log = log;
+    this.transport = transport;
+    this.scanner = new BLEController(log, transport);
+
+    // only the scanner initializes the adapter, the device controllers report the state it sees
+    this.scanner.on('adapterState', (state) => {
+      for (const controller of this.controllers.values()) {
+        controller.emit('adapterState', state);
+      }
+    });
+  }
+
+  /**
+   * Initialize the BLE adapter
+   */
+  public async init(): Promise<void> {
+    await this.scanner.init();
+  }
+
+  /**
+   * Scan for BLE devices
+   * @param duration - Scan duration in seconds (default: 10)
+   * @param deviceFilter - Optional name or address to stop scanning when matching device is found
+   * @returns Promise resolving to array of discovered peripherals
+   */
+  public async scanDevices(
+    duration: number = 10,
+    deviceFilter?: string,
+  ): Promise<any[]> {
+    return this.scanner.scanDevices(duration, deviceFilter);
+  }
+
+  /**
+   * Set the hooks called around the connection attempts of every controller
+   * @param hooks - e.g. the discovery service, which pauses scanning while connecting
+   */
+  public setConnectionAttemptHooks(hooks: ConnectionAttemptHooks | null): void {
+    this.connectionAttemptHooks = hooks;
+    for (const controller of this.controllers.values()) {
+      controller.setConnectionAttemptHooks(hooks);
+    }
+  }
+
+  /**
+   * Record the metrics of all current and future controllers
+   * @param metrics - The shared metrics, null to stop recording
+   */
+  public setMetrics(metrics: BLEMetrics | null): void {
+    this.metrics = metrics;
+    this.scanner.setMetrics(metrics, '');
+    for (const [address, controller] of this.controllers) {
+      controller.setMetrics(metrics, address);
+    }
+  }
+
+  /**
+   * Apply connection settings to all current and future controllers
+   */
+  public configure(settings: ConnectionSettings): void {
+    this.settings = { ...settings };
+    for (const [address, controller] of this.controllers) {
+      this.applySettings(address, controller);
+    }
+  }
+
+  /**
+   * Override the connection mode of a single device
+   * @param address - The BLE address of the device
+   * @param mode - The connection mode, undefined to use the platform setting
+   */
+  public setDeviceConnectionMode(address: string, mode: ConnectionMode | undefined): void {
+    if (mode) {
+      this.deviceConnectionModes.set(address, mode);
+    } else {
+      this.deviceConnectionModes.delete(address);
+    }
+
+    const controller = this.controllers.get(address);
+    if (controller) {
+      this.applySettings(address, controller);
+    }
+  }
+
+  /**
+   * Set the maximum number of simultaneous connections
+   */
+  public setMaxConnections(maxConnections: number): void {
+    this.maxConnections = Math.max(1, maxConnections);
+    this.log.info(`Max simultaneous connections set to: ${this.maxConnections}`);
+  }
+
+  /**
+   * Get the controller for a device address, creating it if necessary
+   * @param address - The BLE address of the device
+   */
+  public getController(address: string): BLEController {
+    let controller = this.controllers.get(address);
+    if (!controller) {
+      this.log.debug(`Creating BLE controller for device: ${address}`);
+      controller = new BLEController(this.log, this.transport);
+      this.applySettings(address, controller);
+      controller.setConnectionAttemptHooks(this.connectionAttemptHooks);
+      // lamps in on-demand mode connect by themselves for their commands
+      controller.setConnectionSlotCheck(() => this.assertConnectionSlot(address));
+      controller.setMetrics(this.metrics, address);
+      this.controllers.set(address, controller);
+    }
+    return controller;
+  }
+
+  /**
+   * Connect the controller for the peripheral's address, respecting the connection limit
+   * @param peripheral - The peripheral to connect to
+   * @returns The controller holding the connection
+   */
+  public async connect(peripheral: any): Promise<BLEController> {
+    const controller = this.getController(peripheral.address);
+
+    if (!controller.isActive()) {
+      this.assertConnectionSlot(peripheral.address);
+    }
+
+    await controller.connect(peripheral);
+    return controller;
+  }
+
+  /**
+   * Throw if another connection would exceed the connection limit
+   * @param address - The BLE address of the device to connect
+   */
+  private assertConnectionSlot(address: string): void {
+    if (this.getActiveConnectionCount() >= this.maxConnections) {
+      throw new Error(`Connection limit of ${this.maxConnections} reached, cannot connect to ${address}`);
+    }
+  }
+
+  /**
+   * Get the number of controllers that are connected or reconnecting
+   */
+  public getActiveConnectionCount(): number {
+    let count = 0;
+    for (const controller of this.controllers.values()) {
+      if (controller.isActive()) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Disconnect all devices
+   */
+  public async disconnectAll(): Promise<void> {
+    await Promise.all(
+      [...this.controllers.values()].map((controller) => controller.disconnect()),
+    );
+  }
+
+  private applySettings(address: string, controller: BLEController): void {
+    controller.setAutoReconnect(this.settings.autoReconnect);
+    controller.setMaxReconnectionAttempts(this.settings.maxReconnectionAttempts);
+    controller.setConnectionMonitorInterval(this.settings.connectionMonitorInterval);
+    controller.setInitialReconnectionDelay(this.settings.initialReconnectionDelay);
+    controller.setOperationTimeouts(this.settings.operationTimeouts);
+    controller.setIdleDisconnectDelay(this.settings.idleDisconnectDelay);
+    controller.setConnectionMode(this.deviceConnectionModes.get(address) ?? this.settings.connectionMode);
+  }
+}
@@ -0,0 +1,315 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { BLEController } from './bleController.js';
+import type { DeviceBindings } from './characteristicBindings.js';
+import { overrideCharacteristics } from './characteristicBindings.js';
+import type { DeviceAccessoryHandler, DeviceProfile } from './deviceProfiles.js';
+import type { SchneiderBLELampsPlatform } from './platform.js';
+
+/**
+ * Device Accessory
+ * Connection and reachability handling shared by the accessory classes of all device models.
+ * Subclasses create the HomeKit services of their model.
+ */
+export abstract class DeviceAccessory implements DeviceAccessoryHandler {
+  protected bleController!: BLEController;
+  // false while the device has not been seen since startup
+  private reachable = true;
+  // start of the current communication failure with the device, null when the last request succeeded
+  private failingSince: number | null = null;
+  // services showing the link diagnostics of the device
+  private readonly diagnosticServices: Service[] = [];
+
+  constructor(
+    protected readonly platform: SchneiderBLELampsPlatform,
+    protected readonly accessory: PlatformAccessory,
+    protected readonly profile: DeviceProfile,
+  ) {
+    // set accessory information
+    this.accessory.getService(this.platform.Service.AccessoryInformation)!
+      .setCharacteristic(this.platform.Characteristic.Manufacturer, this.profile.manufacturer)
+      .setCharacteristic(this.platform.Characteristic.Model, this.profile.model)
+      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.device?.uniqueId || 'SCH-BLE-LAMP');
+
+    // Debug: Log the accessory context to verify device information
+    this.platform.log.debug('Accessory context:', JSON.stringify(this.accessory.context, null, 2));
+
+    // Verify that device information is properly stored
+    if (!this.accessory.context.device) {
+      this.platform.log.error('Device information not found in accessory context');
+      return;
+    }
+
+    if (!this.accessory.context.device.address && !this.accessory.context.device.deviceAddress) {
+      this.platform.log.error('Device address not found in accessory context');
+      this.platform.log.debug('Available device context properties:', Object.keys(this.accessory.context.device));
+    } else {
+      this.platform.log.debug('Device address found in accessory context:',
+        this.accessory.context.device.address || this.accessory.context.device.deviceAddress);
+
+      // each device gets its own controller so that several devices can stay connected at once
+      this.bleController = this.platform.connectionManager.getController(
+        this.accessory.context.device.address || this.accessory.context.device.deviceAddress);
+
+      // the characteristics and codecs of the model, configured devices may use other characteristics
+      this.bleController.setBindings(this.getBindings());
+      if (this.accessory.context.device.characteristic) {
+        this.bleController.setControlCharacteristicUuid(this.accessory.context.device.characteristic);
+      }
+
+      // also after the automatic and on-demand reconnects of the controller
+      this.bleController.on('connected', () => {
+        this.platform.log.info(`Connected to lamp: ${this.accessory.displayName}`);
+        this.onConnected();
+      });
+      this.bleController.on('disconnected', (reason) => {
+        this.platform.log.info(`Disconnected from lamp: ${this.accessory.displayName} (${reason})`);
+      });
+      this.bleController.on('diagnostics', () => this.updateDiagnostics());
+    }
+  }
+
+  /**
+   * Get the bindings of the device model with the characteristics set by the `characteristics` device option
+   */
+  protected getBindings(): DeviceBindings {
+    return overrideCharacteristics(this.profile.bindings, this.accessory.context.device.characteristics);
+  }
+
+  /**
+   * Get the HomeKit service type of a switched load, the `exposeAs` type of the device or the service of its model
+   */
+  protected getLampServiceType(): typeof Service.Lightbulb | typeof Service.Switch | typeof Service.Outlet | typeof Service.Fan {
+    switch (this.accessory.context.device.exposeAs ?? this.profile.service) {
+    case 'switch':
+      return this.platform.Service.Switch;
+    case 'outlet':
+      return this.platform.Service.Outlet;
+    case 'fan':
+      return this.platform.Service.Fan;
+    default:
+      return this.platform.Service.Lightbulb;
+    }
+  }
+
+  /**
+   * Get the service switching the load of a device with a single load, undefined for other devices
+   */
+  public getLampService(): Service | undefined {
+    const { Fan, Lightbulb, Outlet, Switch } = this.platform.Service;
+    const lampServices = [Lightbulb.UUID, Switch.UUID, Outlet.UUID, Fan.UUID];
+    return this.accessory.services.find((service) => lampServices.includes(service.UUID) && !service.subtype);
+  }
+
+  /**
+   * Remove the services of switched loads that are no longer used, e.g. after `exposeAs` changed
+   * @param inUse - Returns true for the services the accessory still exposes
+   */
+  protected removeStaleLampServices(inUse: (service: Service) => boolean): void {
+    const { Fan, Lightbulb, Outlet, Switch } = this.platform.Service;
+    const lampServices = [Lightbulb.UUID, Switch.UUID, Outlet.UUID, Fan.UUID];
+
+    const stale = this.accessory.services.filter((service) => lampServices.includes(service.UUID) && !inUse(service));
+    for (const service of stale) {
+      this.platform.log.info(`Removing stale ${service.constructor.name} service from ${this.accessory.displayName}`);
+      this.accessory.removeService(service);
+    }
+    if (stale.length > 0) {
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+    }
+  }
+
+  /**
+   * Show the link diagnostics of the device as read-only characteristics and a status fault on a service
+   */
+  protected exposeDiagnostics(service: Service): void {
+    const { StatusFault } = this.platform.Characteristic;
+    const { SignalStrength, Reconnects, LastDisconnectReason, WriteLatency, LastSeen } = this.platform.CustomCharacteristics;
+
+    // the diagnostics are not part of the HomeKit services of the devices
+    for (const characteristic of [StatusFault, SignalStrength, Reconnects, LastDisconnectReason, WriteLatency, LastSeen]) {
+      if (!service.testCharacteristic(characteristic)) {
+        service.addOptionalCharacteristic(characteristic);
+      }
+    }
+    service.getCharacteristic(StatusFault)
+      .onGet(() => this.getStatusFault());
+
+    this.diagnosticServices.push(service);
+    this.updateDiagnostics();
+  }
+
+  /**
+   * Report a fault once the device is unreachable or failing beyond the grace period
+   */
+  private getStatusFault(): number {
+    const { StatusFault } = this.platform.Characteristic;
+    return this.isReachable() ? StatusFault.NO_FAULT : StatusFault.GENERAL_FAULT;
+  }
+
+  /**
+   * Push the current link diagnostics to the services showing them
+   */
+  private updateDiagnostics(): void {
+    if (this.diagnosticServices.length === 0 || !this.bleController) {
+      return;
+    }
+
+    const diagnostics = this.bleController.getDiagnostics();
+    const Custom = this.platform.CustomCharacteristics;
+    for (const service of this.diagnosticServices) {
+      service.updateCharacteristic(this.platform.Characteristic.StatusFault, this.getStatusFault());
+      service.updateCharacteristic(Custom.SignalStrength, diagnostics.rssi ?? -127);
+      service.updateCharacteristic(Custom.Reconnects, diagnostics.reconnects);
+      service.updateCharacteristic(Custom.LastDisconnectReason, diagnostics.lastDisconnectReason ?? 'None');
+      service.updateCharacteristic(Custom.WriteLatency, diagnostics.writeLatency ?? 0);
+      service.updateCharacteristic(Custom.LastSeen, diagnostics.lastSeen === null ? 'Never' : new Date(diagnostics.lastSeen).toISOString());
+    }
+  }
+
+  /**
+   * Called after every connection to the device has been established, e.g. to resync state changed by the wall switch
+   */
+  protected onConnected(): void {}
+
+  /**
+   * Get the platform accessory handled by this instance
+   */
+  public getAccessory(): PlatformAccessory {
+    return this.accessory;
+  }
+
+  /**
+   * Mark the lamp as reachable or not, requests to unreachable lamps show "Not Responding" in the Home app
+   */
+  public setReachable(reachable: boolean): void {
+    if (this.reachable !== reachable) {
+      this.reachable = reachable;
+      this.platform.log.info(`Lamp ${this.accessory.displayName} is ${reachable ? 'reachable again' : 'unreachable'}`);
+      this.updateDiagnostics();
+    }
+  }
+
+  /**
+   * Check whether the lamp is reachable and not failing beyond the grace period
+   */
+  public isReachable(): boolean {
+    return this.bleController !== undefined && this.reachable && this.isWithinGracePeriod();
+  }
+
+  /**
+   * Throw the HomeKit communication failure status if the lamp is unreachable or reconnecting has been given up
+   * Requests then fail right away instead of waiting for another connection attempt, until the lamp advertises again.
+   */
+  protected assertReachable(): void {
+    if (!this.reachable || this.bleController.hasGivenUp()) {
+      throw this.communicationFailure();
+    }
+  }
+
+  /**
+   * Create the error that shows the lamp as "Not Responding" in the Home app
+   */
+  protected communicationFailure(): Error {
+    return new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+  }
+
+  /**
+   * Record the start of a communication failure, the grace period starts with the first one
+   */
+  protected markFailing(): void {
+    this.failingSince ??= Date.now();
+    this.updateDiagnostics();
+  }
+
+  /**
+   * Record a successful communication with the lamp
+   */
+  protected markAvailable(): void {
+    this.failingSince = null;
+    this.updateDiagnostics();
+  }
+
+  /**
+   * Check whether the lamp is still within the grace period of a connection problem
+   * Once the controller has given up reconnecting the grace period is over.
+   */
+  protected isWithinGracePeriod(): boolean {
+    if (this.bleController.hasGivenUp()) {
+      return false;
+    }
+
+    const since = this.bleController.getDisconnectedSince() ?? this.failingSince;
+    if (since === null) {
+      return true;
+    }
+    return Date.now() - since < this.platform.reachability.gracePeriod * 1000;
+  }
+
+  /**
+   * Return a cached value for a failed read, or throw if the platform settings do not allow it
+   */
+  protected getCachedValue<T extends CharacteristicValue>(value: T): T {
+    const cachedReads = this.platform.reachability.cachedReads;
+    if (cachedReads === 'always' || (cachedReads === 'grace' && this.isWithinGracePeriod())) {
+      return value;
+    }
+    throw this.communicationFailure();
+  }
+
+  /**
+   * Connect to the lamp right away instead of on the first HomeKit request
+   */
+  public async connect(): Promise<void> {
+    await this.connectToDevice();
+  }
+
+  /**
+   * Connect to the device before a request unless it is connected already
+   */
+  protected async ensureConnected(): Promise<void> {
+    if (!this.bleController.getIsConnected()) {
+      this.platform.log.debug('Not connected to device, attempting connection...');
+      await this.connectToDevice();
+    }
+  }
+
+  /**
+   * Connect to the BLE device
+   */
+  protected async connectToDevice(): Promise<void> {
+    try {
+      // Find the peripheral by address from the platform
+      // Try both possible locations for the device address
+      let deviceAddress = this.accessory.context.device?.address;
+      if (!deviceAddress) {
+        deviceAddress = this.accessory.context.device?.deviceAddress;
+      }
+
+      if (!deviceAddress) {
+        throw new Error('Device address not found in accessory context');
+      }
+
+      this.platform.log.debug(`Retrieved device address: ${deviceAddress}`);
+
+      // Get the peripheral from the platform's peripheral map
+      const peripheral = this.platform.getPeripheralByAddress(deviceAddress);
+      if (!peripheral) {
+        throw new Error(`Peripheral not found for address: ${deviceAddress}`);
+      }
+
+      // Check if this lamp's controller is already connected
+      if (!this.bleController.getIsConnected()) {
+
+        // Enable auto-reconnection for this device
+        this.bleController.setAutoReconnect(true);
+
+        // Connect to the peripheral through the connection manager to respect the connection limit
+        await this.platform.connectionManager.connect(peripheral);
+      }
+    } catch (error) {
+      this.platform.log.error(`Failed to connect to lamp: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error; // Re-throw to allow retry logic in calling methods
+    }
+  }
+}
@@ -0,0 +1,214 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { PlatformAccessory, Service } from 'homebridge';
+
+import type { DeviceBindings } from './characteristicBindings.js';
+import { DOUBLE_SWITCH_BINDINGS, LAMP_BINDINGS, SHUTTER_BINDINGS } from './characteristicBindings.js';
+import { SchneiderBLEMultiChannelAccessory } from './multiChannelAccessory.js';
+import type { SchneiderBLELampsPlatform } from './platform.js';
+import { SchneiderBLELampsAccessory } from './platformAccessory.js';
+import { LAMP_SERVICE_UUID, SHUTTER_SERVICE_UUID } from './settings.js';
+import { SchneiderBLEShutterAccessory } from './shutterAccessory.js';
+
+/**
+ * HomeKit services a switched load can be exposed as
+ */
+export type LampServiceType = 'lightbulb' | 'switch' | 'outlet' | 'fan';
+
+/**
+ * HomeKit service created for a device
+ */
+export type DeviceServiceType = LampServiceType | 'windowCovering';
+
+/**
+ * Advertisement criteria identifying a device model, every given criterion must match
+ */
+export interface DeviceProfileMatch {
+  // At least one of these service UUIDs is advertised
+  serviceUuids?: string[];
+  // Manufacturer data starts with the company identifier, optionally followed by the hex encoded prefix
+  manufacturerData?: {
+    companyId: number;
+    prefix?: string;
+  };
+  // Pattern tested against the advertised local name
+  namePattern?: RegExp;
+}
+
+/**
+ * Accessory handler created by the platform for every registered device
+ */
+export interface DeviceAccessoryHandler {
+  /**
+   * Get the platform accessory handled by this instance
+   */
+  getAccessory(): PlatformAccessory;
+
+  /**
+   * Mark the device as reachable or not
+   */
+  setReachable(reachable: boolean): void;
+
+  /**
+   * Check whether requests to the device are answered, false while it is shown as "Not Responding"
+   */
+  isReachable(): boolean;
+
+  /**
+   * Get the service switching the load of a device with a single load, undefined for other devices
+   */
+  getLampService(): Service | undefined;
+
+  /**
+   * Connect to the device right away instead of on the first HomeKit request
+   */
+  connect(): Promise<void>;
+}
+
+export type DeviceAccessoryConstructor = new (
+  platform: SchneiderBLELampsPlatform,
+  accessory: PlatformAccessory,
+  profile: DeviceProfile,
+) => DeviceAccessoryHandler;
+
+/**
+ * Device Profile
+ * Describes one model: how it is recognised, which HomeKit service it is exposed as,
+ * which characteristics hold its state and the accessory class handling it.
+ */
+export interface DeviceProfile {
+  // Stable identifier, stored in the accessory context and used by the `profile` device option
+  id: string;
+  manufacturer: string;
+  model: string;
+  match: DeviceProfileMatch;
+  // Default HomeKit service, `exposeAs` of a configured device overrides it
+  service: DeviceServiceType;
+  bindings: DeviceBindings;
+  accessory: DeviceAccessoryConstructor;
+}
+
+/**
+ * Identifier of the profile used for devices that match no other profile
+ */
+export const DEFAULT_PROFILE_ID = 'schneider-lamp';
+
+/**
+ * Profiles of the devices supported out of the box
+ */
+export const BUILT_IN_PROFILES: DeviceProfile[] = [
+  {
+    id: DEFAULT_PROFILE_ID,
+    manufacturer: 'Schneider Electric',
+    model: 'BLE Lamp',
+    match: { serviceUuids: [LAMP_SERVICE_UUID] },
+    service: 'lightbulb',
+    bindings: LAMP_BINDINGS,
+    accessory: SchneiderBLELampsAccessory,
+  },
+  {
+    // advertises like a lamp, so it is only used when selected with the `profile` device option
+    id: 'schneider-double-switch',
+    manufacturer: 'Schneider Electric',
+    model: 'BLE Double Switch',
+    match: {},
+    service: 'lightbulb',
+    bindings: DOUBLE_SWITCH_BINDINGS,
+    accessory: SchneiderBLEMultiChannelAccessory,
+  },
+  {
+    id: 'schneider-shutter',
+    manufacturer: 'Schneider Electric',
+    model: 'BLE Shutter',
+    match: { serviceUuids: [SHUTTER_SERVICE_UUID] },
+    service: 'windowCovering',
+    bindings: SHUTTER_BINDINGS,
+    accessory: SchneiderBLEShutterAccessory,
+  },
+];
+
+/**
+ * Device Profile Registry
+ * Picks the profile of a device from its advertisement. Profiles registered later are
+ * checked first, so that a specific model can refine a more generic profile.
+ */
+export class DeviceProfileRegistry {
+  private readonly profiles: DeviceProfile[] = [];
+
+  constructor(profiles: DeviceProfile[] = BUILT_IN_PROFILES) {
+    profiles.forEach((profile) => this.register(profile));
+  }
+
+  /**
+   * Add a profile, replacing a registered profile with the same id
+   */
+  public register(profile: DeviceProfile): void {
+    const index = this.profiles.findIndex((registered) => registered.id === profile.id);
+    if (index !== -1) {
+      this.profiles.splice(index, 1);
+    }
+    this.profiles.unshift(profile);
+  }
+
+  /**
+   * Get a profile by id
+   */
+  public get(id: string): DeviceProfile | undefined {
+    return this.profiles.find((profile) => profile.id === id);
+  }
+
+  /**
+   * Get the profile used for devices that match no other profile
+   */
+  public getDefault(): DeviceProfile {
+    const profile = this.get(DEFAULT_PROFILE_ID);
+    if (!profile) {
+      throw new Error(`Default device profile ${DEFAULT_PROFILE_ID} is not registered`);
+    }
+    return profile;
+  }
+
+  /**
+   * Get all registered profiles, in matching order
+   */
+  public getProfiles(): DeviceProfile[] {
+    return [...this.profiles];
+  }
+
+  /**
+   * Find the profile matching the advertisement of a peripheral
+   * @param peripheral - The advertising peripheral
+   * @returns The first matching profile, null if no profile matches
+   */
+  public match(peripheral: any): DeviceProfile | null {
+    return this.profiles.find((profile) => DeviceProfileRegistry.matches(profile.match, peripheral)) ?? null;
+  }
+
+  private static matches(match: DeviceProfileMatch, peripheral: any): boolean {
+    const advertisement = peripheral.advertisement ?? {};
+
+    if (match.serviceUuids) {
+      const advertised: string[] = (advertisement.serviceUuids ?? []).map((uuid: string) => uuid.replace(/-/g, '').toLowerCase());
+      if (!match.serviceUuids.some((uuid) => advertised.includes(uuid))) {
+        return false;
+      }
+    }
+
+    if (match.manufacturerData) {
+      const data: Buffer | undefined = advertisement.manufacturerData;
+      if (!data || data.length < 2 || data.readUInt16LE(0) !== match.manufacturerData.companyId) {
+        return false;
+      }
+      const prefix = match.manufacturerData.prefix?.toLowerCase();
+      if (prefix && !data.subarray(2).toString('hex').startsWith(prefix)) {
+        return false;
+      }
+    }
+
+    if (match.namePattern && !match.namePattern.test(advertisement.localName ?? '')) {
+      return false;
+    }
+
+    // a profile without criteria is only used when selected explicitly
+    return match.serviceUuids !== undefined || match.manufacturerData !== undefined || match.namePattern !== undefined;
+  }
+}
@@ -0,0 +1,67 @@
+import type { API, PlatformAccessory } from 'homebridge';
+
+/**
+ * Registry entry stored in `accessory.context.registry`
+ */
+export interface DeviceRegistryEntry {
+  // Epoch milliseconds when the device was first seen
+  firstSeen: number;
+  // Epoch milliseconds when the device was last seen advertising or connected
+  lastSeen: number;
+}
+
+/**
+ * Device Registry
+ * Records in the accessory context when each lamp was last seen, so that a lamp which is
+ * briefly out of range keeps its HomeKit room, name and automations. The entries survive
+ * Homebridge restarts with the accessory cache.
+ */
+export class DeviceRegistry {
+  // Minimum time between two cache writes caused by a lamp being seen
+  private static readonly PERSIST_INTERVAL_MS = 5 * 60 * 1000;
+
+  private readonly lastPersisted = new Map<string, number>();
+
+  constructor(private readonly api: API) {}
+
+  /**
+   * Get the registry entry of an accessory, creating it for accessories cached by earlier versions
+   */
+  public getEntry(accessory: PlatformAccessory): DeviceRegistryEntry {
+    if (!accessory.context.registry) {
+      // absence is counted from the first time the registry sees the accessory
+      const now = Date.now();
+      accessory.context.registry = { firstSeen: now, lastSeen: now };
+    }
+    return accessory.context.registry as DeviceRegistryEntry;
+  }
+
+  /**
+   * Record that a lamp was seen, persisting the change at most every few minutes
+   */
+  public markSeen(accessory: PlatformAccessory): void {
+    const now = Date.now();
+    this.getEntry(accessory).lastSeen = now;
+
+    const lastPersisted = this.lastPersisted.get(accessory.UUID) ?? 0;
+    if (now - lastPersisted >= DeviceRegistry.PERSIST_INTERVAL_MS) {
+      this.lastPersisted.set(accessory.UUID, now);
+      this.api.updatePlatformAccessories([accessory]);
+    }
+  }
+
+  /**
+   * Get the time since a lamp was last seen
+   * @returns The absence in milliseconds
+   */
+  public getAbsence(accessory: PlatformAccessory): number {
+    return Math.max(0, Date.now() - this.getEntry(accessory).lastSeen);
+  }
+
+  /**
+   * Forget the persistence throttling of a removed accessory
+   */
+  public forget(accessory: PlatformAccessory): void {
+    this.lastPersisted.delete(accessory.UUID);
+  }
+}
@@ -0,0 +1,55 @@
+import type { API } from 'homebridge';
+
+import { CustomHomeKitTypes } from 'homebridge-lib/CustomHomeKitTypes';
+
+/**
+ * Custom characteristic UUID in the range of this plugin
+ */
+function uuid(id: string): string {
+  return `${id.padStart(8, '0')}-7363-4E48-8000-626C656C616D`;
+}
+
+/**
+ * Diagnostic HomeKit Types
+ * Read-only characteristics showing the link quality of a device, displayed by the Eve app.
+ * Also holds the on time of lamps with a configured wattage, which the Eve types do not cover for lights.
+ */
+export class DiagnosticHomeKitTypes extends CustomHomeKitTypes {
+  constructor(api: API) {
+    super(api);
+
+    const perms = [this.Perms.PAIRED_READ, this.Perms.NOTIFY];
+
+    this.createCharacteristicClass('SignalStrength', uuid('001'), {
+      format: this.Formats.INT,
+      minValue: -127,
+      maxValue: 20,
+      perms,
+    }, 'Signal Strength (dBm)');
+
+    this.createCharacteristicClass('Reconnects', uuid('002'), {
+      format: this.Formats.UINT32,
+      perms,
+    }, 'Reconnects');
+
+    this.createCharacteristicClass('LastDisconnectReason', uuid('003'), {
+      format: this.Formats.STRING,
+      perms,
+    }, 'Last Disconnect');
+
+    this.createCharacteristicClass('WriteLatency', uuid('004'), {
+      format: this.Formats.UINT32,
+      perms,
+    }, 'Write Latency (ms)');
+
+    this.createCharacteristicClass('LastSeen', uuid('005'), {
+      format: this.Formats.STRING,
+      perms,
+    }, 'Last Seen');
+
+    this.createCharacteristicClass('OnTime', uuid('006'), {
+      format: this.Formats.UINT32,
+      perms,
+    }, 'On Time (s)');
+  }
+}
@@ -0,0 +1,249 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import type { Logging } from 'homebridge';
+
+import type { ConnectionAttemptHooks } from './bleController.js';
+import type { BLETransport } from './bleTransport.js';
+import type { BLEMetrics } from './metrics.js';
+
+/**
+ * How the discovery service scans for devices
+ * - continuous: scan all the time, reporting every advertisement
+ * - interval: scan for a window of `scanDuration` seconds every `interval` seconds
+ * - startup: scan once for `scanDuration` seconds
+ */
+export type DiscoveryMode = 'continuous' | 'interval' | 'startup';
+
+/**
+ * Discovery service options
+ */
+export interface DiscoveryOptions {
+  mode: DiscoveryMode;
+  // Scan window in seconds (interval and startup modes)
+  scanDuration: number;
+  // Time between the start of two scan windows in seconds (interval mode)
+  interval: number;
+}
+
+/**
+ * Last advertisement seen from a device
+ */
+export interface DiscoveredDevice {
+  address: string;
+  name?: string;
+  rssi: number;
+  lastSeen: number;
+}
+
+/**
+ * Discovery Service
+ * Keeps scanning in the background so that devices powered on after startup are found,
+ * and records when each device was last seen. Scanning is paused while a connection is
+ * being established, so that discovery does not starve the connections.
+ */
+export class DiscoveryService implements ConnectionAttemptHooks {
+  private readonly log: Logging;
+  private readonly transport: BLETransport;
+  private options: DiscoveryOptions = {
+    mode: 'interval',
+    scanDuration: 10,
+    interval: 60,
+  };
+  private readonly devices = new Map<string, DiscoveredDevice>();
+  private readonly listeners: Array<(peripheral: any) => void> = [];
+  private running = false;
+  private inScanWindow = false;
+  private pauseCount = 0;
+  private windowTimeout: NodeJS.Timeout | null = null;
+  private intervalTimer: NodeJS.Timeout | null = null;
+  private metrics: BLEMetrics | null = null;
+  // start of the current scan window and the devices seen in it
+  private windowStartedAt = 0;
+  private readonly windowDevices = new Set<string>();
+  private readonly onDiscover = (peripheral: any) => {
+    this.handleDiscover(peripheral);
+  };
+
+  constructor(log: Logging, transport: BLETransport) {
+    this.log = log;
+    this.transport = transport;
+  }
+
+  /**
+   * Set the discovery options, applied on the next start
+   */
+  public configure(options: DiscoveryOptions): void {
+    this.options = {
+      mode: options.mode,
+      scanDuration: Math.max(1, options.scanDuration),
+      interval: Math.max(options.scanDuration, options.interval),
+    };
+  }
+
+  /**
+   * Record the duration of the scan windows and the devices found in them
+   * @param metrics - The shared metrics, null to stop recording
+   */
+  public setMetrics(metrics: BLEMetrics | null): void {
+    this.metrics = metrics;
+  }
+
+  /**
+   * Register a listener called for every advertisement received
+   * @param listener - Called with the advertising peripheral
+   */
+  public onDeviceDiscovered(listener: (peripheral: any) => void): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Start background discovery
+   */
+  public start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.transport.on('discover', this.onDiscover);
+
+    this.log.info(
+      this.options.mode === 'interval'
+        ? `Starting background discovery: ${this.options.scanDuration}s scan every ${this.options.interval}s`
+        : `Starting ${this.options.mode} discovery`,
+    );
+
+    this.startScanWindow();
+    if (this.options.mode === 'interval') {
+      this.intervalTimer = setInterval(() => this.startScanWindow(), this.options.interval * 1000);
+    }
+  }
+
+  /**
+   * Stop background discovery
+   */
+  public stop(): void {
+    if (!this.running) {
+      return;
+    }
+    this.running = false;
+    this.inScanWindow = false;
+    this.clearTimers();
+    this.transport.removeListener('discover', this.onDiscover);
+    this.stopScanning();
+    this.log.debug('Background discovery stopped');
+  }
+
+  /**
+   * Pause scanning while a connection is being established
+   */
+  public onConnectStart(): void {
+    this.pauseCount++;
+    if (this.pauseCount === 1 && this.inScanWindow) {
+      this.log.debug('Pausing discovery while connecting');
+      this.stopScanning();
+    }
+  }
+
+  /**
+   * Resume scanning once no connection is being established anymore
+   */
+  public onConnectEnd(): void {
+    this.pauseCount = Math.max(0, this.pauseCount - 1);
+    if (this.pauseCount === 0 && this.inScanWindow) {
+      this.log.debug('Resuming discovery');
+      this.startScanning();
+    }
+  }
+
+  /**
+   * Get the last advertisement seen from a device
+   * @param address - The BLE address of the device
+   */
+  public getDiscoveredDevice(address: string): DiscoveredDevice | undefined {
+    return this.devices.get(address.toLowerCase());
+  }
+
+  /**
+   * Get the last advertisement seen from every device
+   */
+  public getDiscoveredDevices(): DiscoveredDevice[] {
+    return [...this.devices.values()];
+  }
+
+  private startScanWindow(): void {
+    this.inScanWindow = true;
+    this.windowStartedAt = Date.now();
+    this.windowDevices.clear();
+    if (this.pauseCount === 0) {
+      this.startScanning();
+    }
+
+    if (this.options.mode !== 'continuous') {
+      if (this.windowTimeout) {
+        clearTimeout(this.windowTimeout);
+      }
+      this.windowTimeout = setTimeout(() => {
+        this.windowTimeout = null;
+        this.inScanWindow = false;
+        this.stopScanning();
+        this.metrics?.scanDuration.observe({}, (Date.now() - this.windowStartedAt) / 1000);
+        this.log.debug(`Discovery scan window completed, ${this.devices.size} devices seen so far`);
+        if (this.options.mode === 'startup') {
+          this.stop();
+        }
+      }, this.options.scanDuration * 1000);
+    }
+  }
+
+  private startScanning(): void {
+    if (!this.transport.scanning) {
+      // Duplicates are needed in continuous mode to keep last-seen time and RSSI up to date
+      this.transport.startScanning([], this.options.mode === 'continuous');
+    }
+  }
+
+  private stopScanning(): void {
+    if (this.transport.scanning) {
+      this.transport.stopScanning();
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.windowTimeout) {
+      clearTimeout(this.windowTimeout);
+      this.windowTimeout = null;
+    }
+    if (this.intervalTimer) {
+      clearInterval(this.intervalTimer);
+      this.intervalTimer = null;
+    }
+  }
+
+  private handleDiscover(peripheral: any): void {
+    // Ensure the peripheral has a consistent address property
+    if (!peripheral.address && (peripheral.id || peripheral.uuid)) {
+      peripheral.address = peripheral.id || peripheral.uuid;
+    }
+    if (!peripheral.address) {
+      return;
+    }
+
+    const address = peripheral.address.toLowerCase();
+    if (!this.windowDevices.has(address)) {
+      this.windowDevices.add(address);
+      this.metrics?.devicesFound.inc({});
+    }
+    if (!this.devices.has(address)) {
+      this.log.debug(`Discovered device: ${address} - ${peripheral.advertisement?.localName || 'Unknown'}`);
+    }
+    this.devices.set(address, {
+      address,
+      name: peripheral.advertisement?.localName,
+      rssi: peripheral.rssi,
+      lastSeen: Date.now(),
+    });
+
+    for (const listener of this.listeners) {
+      listener(peripheral);
+    }
+  }
+}
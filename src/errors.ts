@@ -0,0 +1,35 @@
+/**
+ * A BLE operation did not complete within its configured timeout
+ */
+export class BLETimeoutError extends Error {
+  constructor(
+    public readonly operation: string,
+    public readonly timeoutMs: number,
+  ) {
+    super(`${operation} timed out after ${timeoutMs}ms`);
+    this.name = 'BLETimeoutError';
+  }
+}
+
+/**
+ * A BLE operation was cancelled through its AbortSignal
+ */
+export class BLEAbortError extends Error {
+  constructor(public readonly operation: string) {
+    super(`${operation} was aborted`);
+    this.name = 'BLEAbortError';
+  }
+}
+
+/**
+ * A REST API request failed, answered with the HTTP status and the message as JSON error
+ */
+export class ApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
@@ -0,0 +1,335 @@
+import type { PlatformAccessory, Service } from 'homebridge';
+
+import type { SchneiderBLELampsPlatform } from './platform.js';
+
+/**
+ * Eve keeps time as seconds since 2001-01-01
+ */
+const EVE_EPOCH = Date.UTC(2001, 0, 1) / 1000;
+
+/**
+ * History entry, power in 0.1 W averaged since the previous entry, on as 0 or 1
+ */
+export interface EveHistoryEntry {
+  // Seconds since the Unix epoch
+  time: number;
+  power?: number;
+  on?: number;
+}
+
+/**
+ * Energy data and history log stored in `accessory.context.energy`
+ * Entries form a ring buffer of `memorySize` entries, numbered from 1 like the Eve app expects.
+ */
+export interface PersistedEnergyHistory {
+  memorySize: number;
+  firstEntry: number;
+  lastEntry: number;
+  entries: Array<EveHistoryEntry | null>;
+  // Seconds since the Unix epoch the history was started at, Eve shows times relative to it
+  initialTime: number;
+  // Energy used since the last reset, in Wh
+  totalEnergy: number;
+  // Last logged state, so that a restart does not log a transition
+  isOn: boolean;
+  // Seconds since the Unix epoch of the last switch on, null if never switched on
+  lastOnTime: number | null;
+  // Seconds the lamp was on since the last reset
+  onTime: number;
+}
+
+/**
+ * Eve Energy History
+ * Exposes the power, energy use and on time of a lamp with a known wattage as Eve characteristics, and keeps
+ * the on/off transitions and the average power every ten minutes in the Eve history log.
+ * The history protocol follows the one implemented by fakegato-history and homebridge-lib.
+ */
+export class EveEnergyHistory {
+  // 4 weeks of one entry per 10 minutes, plus the on/off transitions
+  private static readonly MEMORY_SIZE = 6 * 24 * 7 * 4;
+  private static readonly ENTRY_INTERVAL_MS = 10 * 60 * 1000;
+  // Eve requests the entries in batches of up to 11
+  private static readonly ENTRIES_PER_TRANSFER = 11;
+  // Data points of every entry: power (tag 0x07, 2 bytes) and on (tag 0x0E, 1 byte)
+  private static readonly FINGERPRINT = Buffer.from([2, 0x07, 2, 0x0e, 1]);
+
+  private readonly history: PersistedEnergyHistory;
+  private readonly historyService: Service;
+  private entryTimer: NodeJS.Timeout | null = null;
+  // current power in W, and energy in Ws and seconds since the last entry
+  private power = 0;
+  private lastUpdate = EveEnergyHistory.now();
+  private periodEnergy = 0;
+  private periodLength = 0;
+  // next entry sent to Eve, null while no transfer was requested
+  private transferEntry: number | null = null;
+
+  /**
+   * @param platform - The platform providing the Eve types
+   * @param accessory - The accessory storing the history in its context
+   * @param service - The lamp service getting the power and energy characteristics
+   * @param wattage - Power of the lamp at full brightness in W
+   */
+  constructor(
+    private readonly platform: SchneiderBLELampsPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly service: Service,
+    private readonly wattage: number,
+  ) {
+    const { CustomCharacteristics: Eve, CustomServices: EveServices } = this.platform;
+
+    const saved = this.accessory.context.energy as PersistedEnergyHistory | undefined;
+    if (saved && saved.memorySize === EveEnergyHistory.MEMORY_SIZE && saved.initialTime <= EveEnergyHistory.now()) {
+      this.history = saved;
+    } else {
+      this.history = {
+        memorySize: EveEnergyHistory.MEMORY_SIZE,
+        firstEntry: 1,
+        lastEntry: 1,
+        entries: [],
+        initialTime: EveEnergyHistory.now(),
+        totalEnergy: saved?.totalEnergy ?? 0,
+        isOn: false,
+        lastOnTime: null,
+        onTime: saved?.onTime ?? 0,
+      };
+      this.accessory.context.energy = this.history;
+    }
+
+    // the Eve characteristics are not part of the HomeKit lamp services
+    for (const characteristic of [Eve.Consumption, Eve.TotalConsumption, Eve.LastActivation, Eve.OnTime]) {
+      if (!this.service.testCharacteristic(characteristic)) {
+        this.service.addOptionalCharacteristic(characteristic);
+      }
+    }
+    this.service.getCharacteristic(Eve.Consumption)
+      .onGet(() => this.power);
+    this.service.getCharacteristic(Eve.TotalConsumption)
+      .onGet(() => this.getTotalConsumption());
+    this.service.getCharacteristic(Eve.LastActivation)
+      .onGet(() => this.getLastActivation());
+    this.service.getCharacteristic(Eve.OnTime)
+      .onGet(() => this.getOnTime());
+
+    // the history service is hidden, it is only used by the Eve app
+    this.historyService = this.accessory.getService(EveServices.History)
+      || this.accessory.addService(EveServices.History, `${this.accessory.displayName} History`);
+    this.historyService.setHiddenService(true);
+    this.historyService.getCharacteristic(Eve.HistoryRequest)
+      .onSet((value) => this.requestEntries(value as string));
+    this.historyService.getCharacteristic(Eve.HistoryEntries)
+      .onGet(() => this.getEntries());
+    this.historyService.getCharacteristic(Eve.SetTime)
+      .onSet(() => undefined);
+    this.historyService.getCharacteristic(Eve.ResetTotal)
+      .onSet((value) => this.resetTotal(value as number));
+    this.updateStatus();
+
+    this.entryTimer = setInterval(() => this.addPowerEntry(), EveEnergyHistory.ENTRY_INTERVAL_MS);
+    this.platform.api.on('shutdown', () => this.stop());
+  }
+
+  /**
+   * Current time in seconds since the Unix epoch
+   */
+  private static now(): number {
+    return Math.round(Date.now() / 1000);
+  }
+
+  /**
+   * Stop adding entries, the energy used so far is kept in the accessory context
+   */
+  public stop(): void {
+    if (this.entryTimer) {
+      clearInterval(this.entryTimer);
+      this.entryTimer = null;
+    }
+    this.accumulate();
+  }
+
+  /**
+   * Update the power after the lamp was switched or dimmed
+   * Switching on or off is logged as a history entry.
+   * @param isOn - Whether the lamp is on
+   * @param brightness - Brightness in percent, the power is assumed to scale with it
+   */
+  public update(isOn: boolean, brightness = 100): void {
+    this.accumulate();
+
+    this.power = isOn ? Math.round(this.wattage * brightness) / 100 : 0;
+    this.service.updateCharacteristic(this.platform.CustomCharacteristics.Consumption, this.power);
+
+    if (isOn !== this.history.isOn) {
+      const now = EveEnergyHistory.now();
+      this.history.isOn = isOn;
+      if (isOn) {
+        this.history.lastOnTime = now;
+        this.service.updateCharacteristic(this.platform.CustomCharacteristics.LastActivation, this.getLastActivation());
+      } else {
+        this.service.updateCharacteristic(this.platform.CustomCharacteristics.OnTime, this.history.onTime);
+      }
+      this.addEntry({ time: now, on: isOn ? 1 : 0 });
+    }
+  }
+
+  /**
+   * Seconds the lamp was on since the last reset
+   */
+  public getOnTime(): number {
+    this.accumulate();
+    return this.history.onTime;
+  }
+
+  /**
+   * Energy used since the last reset in kWh
+   */
+  public getTotalConsumption(): number {
+    this.accumulate();
+    return Math.round(this.history.totalEnergy / 10) / 100;
+  }
+
+  /**
+   * Seconds between the start of the history and the last switch on, as Eve expects
+   */
+  private getLastActivation(): number {
+    return this.history.lastOnTime === null ? 0 : this.history.lastOnTime - this.history.initialTime;
+  }
+
+  /**
+   * Add the energy used at the current power since the last update
+   */
+  private accumulate(): void {
+    const now = EveEnergyHistory.now();
+    const elapsed = Math.max(0, now - this.lastUpdate);
+    this.lastUpdate = now;
+
+    this.periodEnergy += this.power * elapsed;
+    this.periodLength += elapsed;
+    this.history.totalEnergy += (this.power * elapsed) / 3600;
+    if (this.history.isOn) {
+      this.history.onTime += elapsed;
+    }
+  }
+
+  /**
+   * Log the average power since the previous entry
+   */
+  private addPowerEntry(): void {
+    this.accumulate();
+    const power = this.periodLength === 0 ? 0 : this.periodEnergy / this.periodLength;
+    this.periodEnergy = 0;
+    this.periodLength = 0;
+
+    this.addEntry({ time: EveEnergyHistory.now(), power: Math.round(power * 10), on: this.power > 0 ? 1 : 0 });
+    this.service.updateCharacteristic(this.platform.CustomCharacteristics.TotalConsumption, this.getTotalConsumption());
+    this.service.updateCharacteristic(this.platform.CustomCharacteristics.OnTime, this.getOnTime());
+  }
+
+  /**
+   * Add an entry to the ring buffer, dropping the oldest entry when it is full, and save the history
+   */
+  private addEntry(entry: EveHistoryEntry): void {
+    const history = this.history;
+    if (history.lastEntry - history.firstEntry + 1 >= history.memorySize) {
+      history.firstEntry++;
+    }
+    history.lastEntry++;
+    history.entries[history.lastEntry % history.memorySize] = entry;
+
+    this.updateStatus();
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+
+  /**
+   * Publish the range of available entries, Eve requests new entries when it changes
+   */
+  private updateStatus(): void {
+    const history = this.history;
+    const lastEntry = history.lastEntry > history.firstEntry ? history.entries[history.lastEntry % history.memorySize] : null;
+    const status = Buffer.alloc(32 + EveEnergyHistory.FINGERPRINT.length);
+    let offset = 0;
+    offset = status.writeUInt32LE((lastEntry?.time ?? history.initialTime) - history.initialTime, offset);
+    offset = status.writeUInt32LE(0, offset);
+    offset = status.writeUInt32LE(history.initialTime - EVE_EPOCH, offset);
+    offset += EveEnergyHistory.FINGERPRINT.copy(status, offset);
+    offset = status.writeUInt16LE(history.lastEntry - history.firstEntry + 1, offset);
+    offset = status.writeUInt16LE(history.memorySize, offset);
+    offset = status.writeUInt32LE(history.firstEntry, offset);
+    offset = status.writeUInt32LE(0, offset);
+    offset = status.writeUInt8(1, offset);
+    offset = status.writeUInt8(1, offset);
+
+    this.historyService.updateCharacteristic(
+      this.platform.CustomCharacteristics.HistoryStatus,
+      status.subarray(0, offset).toString('base64'),
+    );
+  }
+
+  /**
+   * Handle a history request from Eve, asking for the entries starting at an entry number
+   */
+  private requestEntries(value: string): void {
+    const request = Buffer.from(value, 'base64');
+    const entry = request.length >= 6 ? request.readUInt32LE(2) : this.history.firstEntry;
+    this.transferEntry = Math.max(this.history.firstEntry, entry);
+    this.platform.log.debug(`History of ${this.accessory.displayName} requested from entry ${entry}`);
+  }
+
+  /**
+   * Return the next batch of requested entries, a single zero byte once all entries were sent
+   * The first entry of the history carries its start time instead of data points.
+   */
+  private getEntries(): string {
+    const history = this.history;
+    if (this.transferEntry === null || this.transferEntry > history.lastEntry) {
+      this.transferEntry = null;
+      return Buffer.from([0x00]).toString('base64');
+    }
+
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < EveEnergyHistory.ENTRIES_PER_TRANSFER && this.transferEntry <= history.lastEntry; i++, this.transferEntry++) {
+      const entry = history.entries[this.transferEntry % history.memorySize];
+      if (this.transferEntry === history.firstEntry || !entry) {
+        const chunk = Buffer.alloc(21);
+        chunk.writeUInt8(21, 0);
+        chunk.writeUInt32LE(this.transferEntry, 1);
+        chunk.write('0100000081', 5, 'hex');
+        chunk.writeUInt32LE(history.initialTime - EVE_EPOCH, 10);
+        chunks.push(chunk);
+        continue;
+      }
+
+      // the bitmap marks the data points present in the entry
+      const chunk = Buffer.alloc(13);
+      let bitmap = 0;
+      let offset = 10;
+      if (entry.power !== undefined) {
+        bitmap |= 0x01;
+        offset = chunk.writeUInt16LE(entry.power, offset);
+      }
+      if (entry.on !== undefined) {
+        bitmap |= 0x02;
+        offset = chunk.writeUInt8(entry.on, offset);
+      }
+      chunk.writeUInt8(offset, 0);
+      chunk.writeUInt32LE(this.transferEntry, 1);
+      chunk.writeUInt32LE(entry.time - history.initialTime, 5);
+      chunk.writeUInt8(bitmap, 9);
+      chunks.push(chunk.subarray(0, offset));
+    }
+    return Buffer.concat(chunks).toString('base64');
+  }
+
+  /**
+   * Reset the total consumption and on time, as requested from the Eve app
+   */
+  private resetTotal(value: number): void {
+    this.accumulate();
+    this.history.totalEnergy = 0;
+    this.history.onTime = 0;
+    this.platform.log.info(`Reset energy use of ${this.accessory.displayName} (${value})`);
+    this.service.updateCharacteristic(this.platform.CustomCharacteristics.TotalConsumption, 0);
+    this.service.updateCharacteristic(this.platform.CustomCharacteristics.OnTime, 0);
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
+}
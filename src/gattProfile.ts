@@ -0,0 +1,207 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { readFileSync, writeFileSync } from 'node:fs';
+
+import { BLEAbortError } from './errors.js';
+
+/**
+ * Version of the profile format, bumped on incompatible changes
+ */
+export const GATT_PROFILE_VERSION = 1;
+
+/**
+ * GATT descriptor in a profile, values are hex encoded
+ */
+export interface GattDescriptorProfile {
+  uuid: string;
+  name: string | null;
+  value: string | null;
+}
+
+/**
+ * GATT characteristic in a profile, the value is null when it is not readable or the read failed
+ */
+export interface GattCharacteristicProfile {
+  uuid: string;
+  name: string | null;
+  handle: number | null;
+  properties: string[];
+  value: string | null;
+  descriptors: GattDescriptorProfile[];
+}
+
+/**
+ * GATT service in a profile
+ */
+export interface GattServiceProfile {
+  uuid: string;
+  name: string | null;
+  characteristics: GattCharacteristicProfile[];
+}
+
+/**
+ * Snapshot of a peripheral's advertisement and GATT table
+ * Exported from a connected lamp and replayed by the simulated transport, so that
+ * model-specific behaviour can be reproduced without the lamp.
+ */
+export interface GattProfile {
+  version: number;
+  exportedAt: string;
+  address: string;
+  name: string | null;
+  rssi: number | null;
+  advertisement: {
+    serviceUuids: string[];
+    manufacturerData: string | null;
+  };
+  services: GattServiceProfile[];
+}
+
+/**
+ * Runs one noble callback operation, applying the caller's timeout and abort handling
+ */
+export type GattProfileOperationRunner = <T>(
+  operation: string,
+  executor: (resolve: (value: T) => void, reject: (error: unknown) => void) => void,
+) => Promise<T>;
+
+/**
+ * Build the profile of a connected peripheral whose services and characteristics have been discovered
+ * Descriptors are discovered here, readable characteristics and all descriptors are read.
+ * @param peripheral - The connected noble or simulated peripheral
+ * @param run - Runs each GATT operation
+ * @returns Promise resolving to the profile
+ */
+export async function readGattProfile(peripheral: any, run: GattProfileOperationRunner): Promise<GattProfile> {
+  // failed operations leave their part of the profile empty, the rest is still useful
+  const attempt = async <T>(
+    operation: string,
+    executor: (resolve: (value: T) => void, reject: (error: unknown) => void) => void,
+  ): Promise<T | null> => {
+    try {
+      return await run<T>(operation, executor);
+    } catch (error) {
+      if (error instanceof BLEAbortError) {
+        throw error;
+      }
+      return null;
+    }
+  };
+  const readValue = async (operation: string, read: (callback: (error: Error | null, data: Buffer) => void) => void) => {
+    const data = await attempt<Buffer>(operation, (resolve, reject) => {
+      read((error, value) => (error ? reject(error) : resolve(value)));
+    });
+    return data ? data.toString('hex') : null;
+  };
+
+  const services: GattServiceProfile[] = [];
+  for (const service of peripheral.services ?? []) {
+    const characteristics: GattCharacteristicProfile[] = [];
+    for (const char of service.characteristics ?? []) {
+      const descriptors: GattDescriptorProfile[] = [];
+      const discovered = char.discoverDescriptors
+        ? await attempt<any[]>(`Discover descriptors of ${char.uuid}`, (resolve, reject) => {
+          char.discoverDescriptors((error: Error | null, result: any[]) => (error ? reject(error) : resolve(result ?? [])));
+        })
+        : null;
+      for (const descriptor of discovered ?? []) {
+        descriptors.push({
+          uuid: descriptor.uuid,
+          name: descriptor.name ?? null,
+          value: await readValue(`Read descriptor ${descriptor.uuid}`, (callback) => descriptor.readValue(callback)),
+        });
+      }
+
+      const properties: string[] = char.properties ?? [];
+      characteristics.push({
+        uuid: char.uuid,
+        name: char.name ?? null,
+        handle: char.handle ?? null,
+        properties,
+        value: properties.includes('read')
+          ? await readValue(`Read characteristic ${char.uuid}`, (callback) => char.read(callback))
+          : null,
+        descriptors,
+      });
+    }
+    services.push({ uuid: service.uuid, name: service.name ?? null, characteristics });
+  }
+
+  const manufacturerData: Buffer | undefined = peripheral.advertisement?.manufacturerData;
+  return {
+    version: GATT_PROFILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    address: peripheral.address,
+    name: peripheral.advertisement?.localName ?? null,
+    rssi: typeof peripheral.rssi === 'number' ? peripheral.rssi : null,
+    advertisement: {
+      serviceUuids: [...(peripheral.advertisement?.serviceUuids ?? [])],
+      manufacturerData: manufacturerData ? manufacturerData.toString('hex') : null,
+    },
+    services,
+  };
+}
+
+/**
+ * Check the shape of a parsed profile
+ * @param data - The parsed JSON
+ * @returns The profile
+ * @throws Error describing the first problem found
+ */
+export function parseGattProfile(data: unknown): GattProfile {
+  const profile = data as GattProfile;
+  if (!profile || typeof profile !== 'object') {
+    throw new Error('GATT profile must be a JSON object');
+  }
+  if (profile.version !== GATT_PROFILE_VERSION) {
+    throw new Error(`Unsupported GATT profile version: ${profile.version}`);
+  }
+  if (typeof profile.address !== 'string' || !profile.address) {
+    throw new Error('GATT profile has no address');
+  }
+  if (!Array.isArray(profile.services)) {
+    throw new Error('GATT profile has no services');
+  }
+  for (const service of profile.services) {
+    if (typeof service.uuid !== 'string' || !Array.isArray(service.characteristics)) {
+      throw new Error('GATT profile contains an invalid service');
+    }
+    for (const char of service.characteristics) {
+      if (typeof char.uuid !== 'string' || !Array.isArray(char.properties)) {
+        throw new Error(`GATT profile contains an invalid characteristic in service ${service.uuid}`);
+      }
+    }
+  }
+
+  return {
+    ...profile,
+    advertisement: {
+      serviceUuids: profile.advertisement?.serviceUuids ?? profile.services.map((service) => service.uuid),
+      manufacturerData: profile.advertisement?.manufacturerData ?? null,
+    },
+  };
+}
+
+/**
+ * Load a profile from a JSON file
+ * @param path - Path of the profile file
+ * @returns The profile
+ * @throws Error if the file cannot be read or is not a valid profile
+ */
+export function loadGattProfile(path: string): GattProfile {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Cannot read GATT profile ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  return parseGattProfile(data);
+}
+
+/**
+ * Write a profile to a JSON file
+ * @param path - Path of the profile file
+ * @param profile - The profile to write
+ */
+export function saveGattProfile(path: string, profile: GattProfile): void {
+  writeFileSync(path, `${JSON.stringify(profile, null, 2)}\n`);
+}
@@ -0,0 +1,141 @@
+import type { Logging } from 'homebridge';
+
+import { BLEAbortError } from './errors.js';
+
+/**
+ * Priority of a queued GATT operation
+ * - write: writes requested by the user, run before any poll
+ * - poll: reads of the device state
+ */
+export type GattOperationPriority = 'write' | 'poll';
+
+interface QueuedOperation {
+  priority: GattOperationPriority;
+  // Operations with the same key replace each other while pending
+  key?: string;
+  description: string;
+  execute: () => Promise<unknown>;
+  waiters: Waiter[];
+}
+
+interface Waiter {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * GATT Operation Queue
+ * Runs the GATT operations of one peripheral one at a time, so that fast toggles and reads
+ * during a write cannot interleave. Writes run before polls, and a pending write is replaced
+ * by a newer write to the same characteristic, so only the latest desired state is sent.
+ */
+export class GattOperationQueue {
+  private readonly log: Logging;
+  private readonly pending: QueuedOperation[] = [];
+  private running = false;
+
+  constructor(log: Logging) {
+    this.log = log;
+  }
+
+  /**
+   * Queue an operation
+   * @param priority - The operation priority
+   * @param description - Description of the operation for logging
+   * @param execute - Runs the operation, called once all earlier operations have completed
+   * @param key - Optional coalescing key, a pending operation with the same key is replaced
+   * @param signal - Optional signal, aborting rejects the caller with a BLEAbortError while the operation is pending
+   * @returns Promise resolving to the result of the operation, or of the operation replacing it
+   */
+  public enqueue<T>(
+    priority: GattOperationPriority,
+    description: string,
+    execute: () => Promise<T>,
+    key?: string,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new BLEAbortError(description));
+        return;
+      }
+
+      let cleanup = () => {};
+      const waiter: Waiter = {
+        resolve: (value) => {
+          cleanup();
+          resolve(value as T);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      };
+      const onAbort = () => this.abortWaiter(waiter, description);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+      const existing = key !== undefined
+        ? this.pending.find((operation) => operation.key === key)
+        : undefined;
+      if (existing) {
+        this.log.debug(`Replacing pending operation "${existing.description}" with "${description}"`);
+        existing.priority = priority;
+        existing.description = description;
+        existing.execute = execute;
+        existing.waiters.push(waiter);
+      } else {
+        this.pending.push({ priority, key, description, execute, waiters: [waiter] });
+      }
+
+      this.runNext();
+    });
+  }
+
+  /**
+   * Get the number of operations waiting to run
+   */
+  public getPendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Reject an aborted caller, dropping its operation if nobody else waits for it
+   * Running operations are not interrupted here, they observe the signal themselves.
+   */
+  private abortWaiter(waiter: Waiter, description: string): void {
+    const index = this.pending.findIndex((operation) => operation.waiters.includes(waiter));
+    if (index !== -1) {
+      const operation = this.pending[index];
+      operation.waiters.splice(operation.waiters.indexOf(waiter), 1);
+      if (operation.waiters.length === 0) {
+        this.pending.splice(index, 1);
+      }
+      waiter.reject(new BLEAbortError(description));
+    }
+  }
+
+  private runNext(): void {
+    if (this.running || this.pending.length === 0) {
+      return;
+    }
+
+    // First write if any, otherwise the oldest poll
+    let index = this.pending.findIndex((operation) => operation.priority === 'write');
+    if (index === -1) {
+      index = 0;
+    }
+    const [operation] = this.pending.splice(index, 1);
+
+    this.running = true;
+    operation.execute()
+      .then(
+        (result) => operation.waiters.forEach((waiter) => waiter.resolve(result)),
+        (error) => operation.waiters.forEach((waiter) => waiter.reject(error)),
+      )
+      .finally(() => {
+        this.running = false;
+        this.runNext();
+      });
+  }
+}
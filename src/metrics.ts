@@ -0,0 +1,222 @@
+import type { Logging } from 'homebridge';
+import type { Server } from 'node:http';
+import { createServer } from 'node:http';
+
+/**
+ * Label values of a metric sample, e.g. `{ lamp: 'aa:bb:cc:dd:ee:ff' }`
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Options of the metrics endpoint from the `metrics` platform option
+ */
+export interface MetricsOptions {
+  enabled: boolean;
+  port: number;
+  // Address the endpoint listens on, only local clients by default
+  host: string;
+}
+
+export const DEFAULT_METRICS_OPTIONS: MetricsOptions = {
+  enabled: false,
+  port: 9464,
+  host: '127.0.0.1',
+};
+
+// Upper bounds of the latency buckets in seconds, BLE operations take from a few milliseconds to the timeouts
+const LATENCY_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const SCAN_BUCKETS = [1, 5, 10, 30, 60, 120, 300];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function labelsKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Metric family with one sample per combination of label values
+ */
+abstract class Metric<T> {
+  protected readonly samples = new Map<string, { labels: MetricLabels; value: T }>();
+
+  constructor(
+    protected readonly name: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram',
+    private readonly help: string,
+    private readonly unit?: string,
+  ) {}
+
+  protected getSample(labels: MetricLabels, create: () => T): { labels: MetricLabels; value: T } {
+    const key = labelsKey(labels);
+    let sample = this.samples.get(key);
+    if (!sample) {
+      sample = { labels: { ...labels }, value: create() };
+      this.samples.set(key, sample);
+    }
+    return sample;
+  }
+
+  /**
+   * Render the metric family in the OpenMetrics text format
+   */
+  public render(): string[] {
+    const lines = [`# TYPE ${this.name} ${this.type}`];
+    if (this.unit) {
+      lines.push(`# UNIT ${this.name} ${this.unit}`);
+    }
+    lines.push(`# HELP ${this.name} ${this.help}`);
+    for (const sample of this.samples.values()) {
+      lines.push(...this.renderSample(sample.labels, sample.value));
+    }
+    return lines;
+  }
+
+  protected abstract renderSample(labels: MetricLabels, value: T): string[];
+}
+
+class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, 'counter', help);
+  }
+
+  public inc(labels: MetricLabels, amount = 1): void {
+    this.getSample(labels, () => 0).value += amount;
+  }
+
+  protected renderSample(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}_total${formatLabels(labels)} ${value}`];
+  }
+}
+
+class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, 'gauge', help);
+  }
+
+  public set(labels: MetricLabels, value: number): void {
+    this.getSample(labels, () => 0).value = value;
+  }
+
+  protected renderSample(labels: MetricLabels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`];
+  }
+}
+
+class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  constructor(name: string, help: string, unit: string, private readonly bounds: number[]) {
+    super(name, 'histogram', help, unit);
+  }
+
+  public observe(labels: MetricLabels, value: number): void {
+    const sample = this.getSample(labels, () => ({ buckets: this.bounds.map(() => 0), sum: 0, count: 0 })).value;
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        sample.buckets[index]++;
+      }
+    });
+    sample.sum += value;
+    sample.count++;
+  }
+
+  protected renderSample(labels: MetricLabels, value: { buckets: number[]; sum: number; count: number }): string[] {
+    const lines = this.bounds.map((bound, index) =>
+      `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`);
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+    return lines;
+  }
+}
+
+/**
+ * BLE Metrics
+ * Counters and histograms of the BLE communication, recorded by the controllers and the discovery service.
+ * Samples of a device are labelled with its address as `lamp`.
+ */
+export class BLEMetrics {
+  public readonly connects = new Counter('ble_connects', 'Connections established to a device');
+  public readonly connectFailures = new Counter('ble_connect_failures', 'Connection attempts to a device that failed');
+  public readonly disconnects = new Counter('ble_disconnects', 'Connections to a device that ended');
+  public readonly reconnectionAttempts = new Counter('ble_reconnection_attempts', 'Automatic reconnection attempts to a device');
+  public readonly currentReconnectionAttempt = new Gauge(
+    'ble_reconnection_attempt', 'Number of the current automatic reconnection attempt, 0 while connected');
+  public readonly maxReconnectionAttempts = new Gauge('ble_max_reconnection_attempts', 'Reconnection attempts before the controller gives up');
+  public readonly operations = new Counter('ble_operations', 'GATT reads and writes by operation and result');
+  public readonly operationDuration = new Histogram(
+    'ble_operation_duration_seconds', 'Duration of connects, reads and writes', 'seconds', LATENCY_BUCKETS);
+  public readonly scanDuration = new Histogram('ble_scan_duration_seconds', 'Duration of the scan windows', 'seconds', SCAN_BUCKETS);
+  public readonly devicesFound = new Counter('ble_devices_found', 'Devices found by the scans');
+
+  /**
+   * Record the result and duration of a GATT operation
+   * @param lamp - The address of the device
+   * @param operation - The operation type, e.g. `read` or `write`
+   * @param success - Whether the operation succeeded
+   * @param startedAt - Epoch milliseconds the operation started at
+   */
+  public recordOperation(lamp: string, operation: string, success: boolean, startedAt: number): void {
+    this.operations.inc({ lamp, operation, result: success ? 'success' : 'failure' });
+    this.operationDuration.observe({ lamp, operation }, (Date.now() - startedAt) / 1000);
+  }
+
+  /**
+   * Render all metrics in the OpenMetrics text format
+   */
+  public render(): string {
+    const metrics = [
+      this.connects, this.connectFailures, this.disconnects, this.reconnectionAttempts, this.currentReconnectionAttempt,
+      this.maxReconnectionAttempts, this.operations, this.operationDuration, this.scanDuration, this.devicesFound,
+    ];
+    return [...metrics.flatMap((metric) => metric.render()), '# EOF', ''].join('\n');
+  }
+}
+
+/**
+ * Metrics Server
+ * Local HTTP listener serving the metrics at `/metrics` for Prometheus to scrape.
+ */
+export class MetricsServer {
+  private server: Server | null = null;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly metrics: BLEMetrics,
+  ) {}
+
+  /**
+   * Start listening, errors like a port in use are logged and leave the endpoint disabled
+   */
+  public start(port: number, host: string): void {
+    this.server = createServer((request, response) => {
+      if (request.method !== 'GET' || request.url?.split('?')[0] !== '/metrics') {
+        response.writeHead(404, { 'Content-Type': 'text/plain' });
+        response.end('Not found\n');
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'application/openmetrics-text; version=1.0.0; charset=utf-8' });
+      response.end(this.metrics.render());
+    });
+
+    this.server.on('error', (error) => {
+      this.log.error(`Metrics endpoint failed: ${error.message}`);
+    });
+    this.server.listen(port, host, () => {
+      this.log.info(`Serving metrics at http://${host}:${port}/metrics`);
+    });
+  }
+
+  /**
+   * Stop listening
+   */
+  public stop(): void {
+    this.server?.close();
+    this.server = null;
+  }
+}
@@ -0,0 +1,308 @@
+import type { Service } from 'homebridge';
+import type { MqttClient } from 'mqtt';
+import { connect } from 'mqtt';
+
+import type { DeviceAccessoryHandler } from './deviceProfiles.js';
+import type { SchneiderBLELampsPlatform } from './platform.js';
+
+/**
+ * Options of the MQTT bridge from the `mqtt` platform option
+ */
+export interface MqttOptions {
+  enabled: boolean;
+  // Broker URL, e.g. mqtt://localhost:1883
+  url: string;
+  username?: string;
+  password?: string;
+  // Topic prefix of all lamp topics
+  baseTopic: string;
+  // Publish Home Assistant discovery payloads
+  homeAssistant: boolean;
+  discoveryPrefix: string;
+}
+
+export const DEFAULT_MQTT_OPTIONS: MqttOptions = {
+  enabled: false,
+  url: 'mqtt://localhost:1883',
+  baseTopic: 'schneider-ble',
+  homeAssistant: false,
+  discoveryPrefix: 'homeassistant',
+};
+
+// Time between two connection attempts to the broker
+const RECONNECT_PERIOD_MS = 5000;
+
+/**
+ * Lamp published by the bridge, by its topic id
+ */
+interface BridgedLamp {
+  handler: DeviceAccessoryHandler;
+  service: Service;
+  connected: boolean;
+}
+
+/**
+ * MQTT Bridge
+ * Publishes the state of every lamp to an MQTT broker and switches lamps on commands from it.
+ * Commands are set on the HomeKit characteristics of the lamp, so they take the same path as
+ * changes from the Home app, and every change of the characteristics is published.
+ *
+ * Topics of a lamp, with the address without colons as id:
+ * - `<baseTopic>/<id>/state`: `ON` or `OFF`, retained
+ * - `<baseTopic>/<id>/brightness`: brightness in percent, retained, only for dimmable lamps
+ * - `<baseTopic>/<id>/availability`: `online` or `offline`, retained
+ * - `<baseTopic>/<id>/set`: `ON`, `OFF` or `{"state": "ON", "brightness": 40}`
+ * - `<baseTopic>/<id>/brightness/set`: brightness in percent
+ */
+export class MqttBridge {
+  private client: MqttClient | null = null;
+  private readonly lamps = new Map<string, BridgedLamp>();
+  private readonly bridgeAvailabilityTopic: string;
+
+  constructor(
+    private readonly platform: SchneiderBLELampsPlatform,
+    private readonly options: MqttOptions,
+  ) {
+    this.bridgeAvailabilityTopic = `${this.options.baseTopic}/bridge/availability`;
+  }
+
+  /**
+   * Connect to the broker, the client reconnects by itself whenever the connection is lost
+   */
+  public start(): void {
+    this.client = connect(this.options.url, {
+      username: this.options.username,
+      password: this.options.password,
+      reconnectPeriod: RECONNECT_PERIOD_MS,
+      // the broker marks all lamps unavailable when the bridge goes away
+      will: { topic: this.bridgeAvailabilityTopic, payload: Buffer.from('offline'), retain: true, qos: 1 },
+    });
+
+    this.client.on('connect', () => {
+      this.platform.log.info(`Connected to MQTT broker ${this.options.url}`);
+      this.publish(this.bridgeAvailabilityTopic, 'online');
+      this.client?.subscribe([`${this.options.baseTopic}/+/set`, `${this.options.baseTopic}/+/brightness/set`]);
+      for (const id of this.lamps.keys()) {
+        this.publishLamp(id);
+      }
+    });
+    this.client.on('message', (topic, payload) => {
+      this.handleCommand(topic, payload.toString()).catch((error) => {
+        this.platform.log.warn(`MQTT command on ${topic} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+    });
+    this.client.on('offline', () => {
+      this.platform.log.warn(`Lost connection to MQTT broker ${this.options.url}, reconnecting...`);
+    });
+    this.client.on('error', (error) => {
+      this.platform.log.error(`MQTT error: ${error.message}`);
+    });
+  }
+
+  /**
+   * Mark the bridge offline and disconnect from the broker
+   */
+  public stop(): void {
+    if (this.client?.connected) {
+      this.publish(this.bridgeAvailabilityTopic, 'offline');
+    }
+    this.client?.end();
+    this.client = null;
+  }
+
+  /**
+   * Publish a lamp and listen for its changes, devices without a single switched load are skipped
+   */
+  public addLamp(handler: DeviceAccessoryHandler): void {
+    const service = handler.getLampService();
+    if (!service) {
+      return;
+    }
+
+    const address: string = handler.getAccessory().context.device.address;
+    const id = MqttBridge.getLampId(address);
+    const controller = this.platform.connectionManager.getController(address);
+    const lamp: BridgedLamp = { handler, service, connected: controller.getIsConnected() };
+    this.lamps.set(id, lamp);
+
+    service.on('characteristic-change', ({ characteristic }) => {
+      if (this.lamps.get(id) !== lamp) {
+        return;
+      }
+      if (characteristic.UUID === this.platform.Characteristic.On.UUID || characteristic.UUID === this.platform.Characteristic.Brightness.UUID) {
+        this.publishState(id);
+      }
+    });
+    // brightness control is added once dimming support is detected
+    service.on('service-configurationChange', () => {
+      if (this.lamps.get(id) === lamp && this.options.homeAssistant) {
+        this.publishDiscovery(id);
+      }
+    });
+    const onConnectionChange = (connected: boolean) => {
+      lamp.connected = connected;
+      if (this.lamps.get(id) === lamp) {
+        this.publishAvailability(id);
+      }
+    };
+    controller.on('connected', () => onConnectionChange(true));
+    controller.on('disconnected', () => onConnectionChange(false));
+
+    this.publishLamp(id);
+  }
+
+  /**
+   * Stop publishing a removed lamp and clear its retained topics
+   */
+  public removeLamp(address: string): void {
+    const id = MqttBridge.getLampId(address);
+    if (!this.lamps.delete(id)) {
+      return;
+    }
+
+    for (const topic of ['state', 'brightness', 'availability']) {
+      this.publish(`${this.options.baseTopic}/${id}/${topic}`, '');
+    }
+    if (this.options.homeAssistant) {
+      for (const component of ['light', 'switch', 'fan']) {
+        this.publish(`${this.options.discoveryPrefix}/${component}/schneider_ble_${id}/config`, '');
+      }
+    }
+  }
+
+  /**
+   * Parse the `ON` and `OFF` payloads announced to Home Assistant, other states are rejected instead of switching the lamp off
+   */
+  private static parseState(state: unknown): boolean {
+    const value = typeof state === 'string' ? state.trim().toUpperCase() : null;
+    if (value !== 'ON' && value !== 'OFF') {
+      throw new Error(`Invalid state ${JSON.stringify(state)}, expected ON or OFF`);
+    }
+    return value === 'ON';
+  }
+
+  private static getLampId(address: string): string {
+    return address.replace(/:/g, '').toLowerCase();
+  }
+
+  private publish(topic: string, payload: string): void {
+    if (this.client?.connected) {
+      this.client.publish(topic, payload, { retain: true, qos: 1 });
+    }
+  }
+
+  private publishLamp(id: string): void {
+    if (this.options.homeAssistant) {
+      this.publishDiscovery(id);
+    }
+    this.publishAvailability(id);
+    this.publishState(id);
+  }
+
+  private publishState(id: string): void {
+    const { service } = this.lamps.get(id)!;
+    const { Brightness, On } = this.platform.Characteristic;
+
+    this.publish(`${this.options.baseTopic}/${id}/state`, service.getCharacteristic(On).value ? 'ON' : 'OFF');
+    if (service.testCharacteristic(Brightness)) {
+      this.publish(`${this.options.baseTopic}/${id}/brightness`, String(service.getCharacteristic(Brightness).value));
+    }
+  }
+
+  /**
+   * Publish whether the lamp is connected, lamps in on-demand mode stay available between commands while they respond
+   */
+  private publishAvailability(id: string): void {
+    const { handler, connected } = this.lamps.get(id)!;
+    const address: string = handler.getAccessory().context.device.address;
+    const onDemand = this.platform.connectionManager.getController(address).getConnectionMode() === 'on-demand';
+    const available = connected || (onDemand && handler.isReachable());
+    this.publish(`${this.options.baseTopic}/${id}/availability`, available ? 'online' : 'offline');
+  }
+
+  /**
+   * Publish the Home Assistant discovery payload of a lamp, as light, fan or switch depending on its service
+   */
+  private publishDiscovery(id: string): void {
+    const { handler, service } = this.lamps.get(id)!;
+    const accessory = handler.getAccessory();
+    const { Characteristic, Service } = this.platform;
+    const information = accessory.getService(Service.AccessoryInformation);
+    const topic = `${this.options.baseTopic}/${id}`;
+
+    const component = service.UUID === Service.Lightbulb.UUID ? 'light' : service.UUID === Service.Fan.UUID ? 'fan' : 'switch';
+    const config: Record<string, unknown> = {
+      name: null,
+      unique_id: `schneider_ble_${id}`,
+      state_topic: `${topic}/state`,
+      command_topic: `${topic}/set`,
+      payload_on: 'ON',
+      payload_off: 'OFF',
+      availability: [{ topic: this.bridgeAvailabilityTopic }, { topic: `${topic}/availability` }],
+      availability_mode: 'all',
+      device: {
+        identifiers: [`schneider_ble_${id}`],
+        name: accessory.displayName,
+        manufacturer: information?.getCharacteristic(Characteristic.Manufacturer).value,
+        model: information?.getCharacteristic(Characteristic.Model).value,
+        connections: [['bluetooth', accessory.context.device.address]],
+      },
+    };
+    if (service.testCharacteristic(Characteristic.Brightness)) {
+      config.brightness_state_topic = `${topic}/brightness`;
+      config.brightness_command_topic = `${topic}/brightness/set`;
+      config.brightness_scale = 100;
+    }
+
+    // a lamp exposed as another type has its previous entity removed
+    for (const other of ['light', 'switch', 'fan']) {
+      this.publish(`${this.options.discoveryPrefix}/${other}/schneider_ble_${id}/config`, other === component ? JSON.stringify(config) : '');
+    }
+  }
+
+  /**
+   * Set the values of a command on the HomeKit characteristics of the lamp
+   * The brightness is set first, so that a lamp asked to dim and switch off ends up off.
+   */
+  private async handleCommand(topic: string, payload: string): Promise<void> {
+    const [id, ...command] = topic.slice(this.options.baseTopic.length + 1).split('/');
+    const lamp = this.lamps.get(id);
+    if (!lamp) {
+      return;
+    }
+
+    let on: boolean | undefined;
+    let brightness: number | undefined;
+    if (command.join('/') === 'brightness/set') {
+      brightness = Number(payload);
+    } else if (payload.trim().startsWith('{')) {
+      const change = JSON.parse(payload) as { state?: unknown; brightness?: number };
+      on = change.state === undefined ? undefined : MqttBridge.parseState(change.state);
+      brightness = change.brightness;
+    } else {
+      on = MqttBridge.parseState(payload);
+    }
+
+    const { Brightness, On } = this.platform.Characteristic;
+    if (brightness !== undefined) {
+      if (!Number.isInteger(brightness) || brightness < 0 || brightness > 100) {
+        throw new Error(`Invalid brightness ${payload}`);
+      }
+      if (!lamp.service.testCharacteristic(Brightness)) {
+        throw new Error(`${lamp.handler.getAccessory().displayName} does not support brightness`);
+      }
+    }
+
+    try {
+      if (brightness !== undefined) {
+        await lamp.service.getCharacteristic(Brightness).handleSetRequest(brightness);
+      }
+      if (on !== undefined) {
+        await lamp.service.getCharacteristic(On).handleSetRequest(on);
+      }
+    } catch {
+      // the characteristic rejects with the HAP status the accessory reported, the state topic keeps the old state
+      throw new Error(`${lamp.handler.getAccessory().displayName} is not responding`);
+    }
+  }
+}
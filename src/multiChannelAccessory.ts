@@ -0,0 +1,187 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import type { CharacteristicBinding } from './characteristicBindings.js';
+import { indexedChannelCodec, ON_OFF_CODEC } from './characteristicBindings.js';
+import { DeviceAccessory } from './deviceAccessory.js';
+import type { DeviceProfile } from './deviceProfiles.js';
+import type { LampChannelConfig, SchneiderBLELampsPlatform } from './platform.js';
+import { LAMP_CONTROL_CHARACTERISTIC_UUID } from './settings.js';
+
+/**
+ * Last known channel states stored in `accessory.context.state`
+ */
+export interface PersistedChannelState {
+  channels: boolean[];
+  // Epoch milliseconds of the last read or notification from the device, null if never confirmed
+  lastReadAt: number | null;
+}
+
+/**
+ * Multi-Channel Accessory
+ * An instance of this class is created for each device switching several loads, like a double rocker switch.
+ * Every channel is exposed as its own service of the `exposeAs` type, all channels share the connection of the device.
+ */
+export class SchneiderBLEMultiChannelAccessory extends DeviceAccessory {
+  private static readonly SUBTYPE_PREFIX = 'channel-';
+
+  private readonly services: Service[] = [];
+  private states: boolean[] = [];
+
+  constructor(
+    platform: SchneiderBLELampsPlatform,
+    accessory: PlatformAccessory,
+    profile: DeviceProfile,
+  ) {
+    super(platform, accessory, profile);
+
+    if (!this.accessory.context.device) {
+      return;
+    }
+
+    // configured channels replace the channels of the device model
+    const channels = this.getChannelBindings();
+    this.bleController?.setBindings({ ...this.getBindings(), channels });
+
+    const serviceType = this.getLampServiceType();
+    this.removeStaleLampServices((service) => service.UUID === serviceType.UUID && this.getChannelIndex(service) < channels.length);
+
+    const saved = this.accessory.context.state as PersistedChannelState | undefined;
+    this.states = channels.map((_, channel) => saved?.channels?.[channel] ?? false);
+
+    const names = (this.accessory.context.device.channels as LampChannelConfig[] | undefined) ?? [];
+    channels.forEach((_, channel) => {
+      const name = names[channel]?.name || `${this.accessory.context.device.displayName} ${channel + 1}`;
+      const subtype = `${SchneiderBLEMultiChannelAccessory.SUBTYPE_PREFIX}${channel}`;
+      const service = this.accessory.getServiceById(serviceType, subtype) || this.accessory.addService(serviceType, name, subtype);
+
+      // the service name is displayed as the default name of the channel in the Home app
+      service.setCharacteristic(this.platform.Characteristic.Name, name);
+      service.getCharacteristic(this.platform.Characteristic.On)
+        .onSet((value) => this.setOn(channel, value))
+        .onGet(() => this.getOn(channel))
+        .updateValue(this.states[channel]);
+      this.services.push(service);
+    });
+
+    // the channels share the connection, its diagnostics are shown on the first channel
+    if (this.services.length > 0) {
+      this.exposeDiagnostics(this.services[0]);
+    }
+
+    // push state changes reported by the device (e.g. the rocker) to HomeKit
+    this.bleController?.on('stateChanged', (change) => {
+      if (change.kind === 'channel' && change.channel < this.services.length) {
+        this.recordState(change.channel, change.isOn, true);
+        this.platform.log.debug(`Channel ${change.channel + 1} state changed on device -> ${change.isOn}`);
+      }
+    });
+  }
+
+  /**
+   * Build the channel bindings from the `channels` device option, or use those of the device model
+   * Channels with an index share a characteristic, channels without one have a characteristic of their own.
+   */
+  private getChannelBindings(): CharacteristicBinding<boolean>[] {
+    const modelChannels = this.profile.bindings.channels ?? [];
+    const configured = this.accessory.context.device.channels as LampChannelConfig[] | undefined;
+    if (!configured?.length) {
+      return modelChannels;
+    }
+
+    return configured.map((channel, index) => ({
+      uuid: channel.characteristic?.replace(/-/g, '').toLowerCase() ?? modelChannels[index]?.uuid ?? LAMP_CONTROL_CHARACTERISTIC_UUID,
+      codec: channel.index !== undefined
+        ? indexedChannelCodec(channel.index)
+        : channel.characteristic ? ON_OFF_CODEC : modelChannels[index]?.codec ?? indexedChannelCodec(index),
+    }));
+  }
+
+  /**
+   * Get the channel index of a channel service, NaN for other services
+   */
+  private getChannelIndex(service: Service): number {
+    const prefix = SchneiderBLEMultiChannelAccessory.SUBTYPE_PREFIX;
+    return service.subtype?.startsWith(prefix) ? Number(service.subtype.slice(prefix.length)) : NaN;
+  }
+
+  /**
+   * Update the known state of a channel and save it in the accessory context
+   * @param channel - Zero based channel index
+   * @param isOn - The new state
+   * @param confirmed - Whether the state was read from or pushed by the device
+   */
+  private recordState(channel: number, isOn: boolean, confirmed: boolean): void {
+    const changed = this.states[channel] !== isOn;
+    this.states[channel] = isOn;
+    this.services[channel].updateCharacteristic(this.platform.Characteristic.On, isOn);
+
+    const previous = this.accessory.context.state as PersistedChannelState | undefined;
+    const state: PersistedChannelState = {
+      channels: [...this.states],
+      lastReadAt: confirmed ? Date.now() : previous?.lastReadAt ?? null,
+    };
+    this.accessory.context.state = state;
+    if (changed || !previous?.channels) {
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+    }
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit for the On Characteristic of a channel
+   */
+  async setOn(channel: number, value: CharacteristicValue) {
+    this.assertReachable();
+
+    const isOn = value as boolean;
+
+    try {
+      await this.ensureConnected();
+
+      if (!await this.bleController.setChannelState(channel, isOn)) {
+        throw new Error(`Failed to set channel ${channel + 1} state to ${isOn}`);
+      }
+
+      this.recordState(channel, isOn, false);
+      this.markAvailable();
+      this.platform.log.debug(`Set Characteristic On of channel ${channel + 1} -> ${isOn} (successful)`);
+    } catch (error) {
+      if (error instanceof this.platform.api.hap.HapStatusError) {
+        throw error;
+      }
+      this.markFailing();
+      this.platform.log.error(`Error in setOn of channel ${channel + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // HomeKit reverts the value and shows the device as "Not Responding"
+      throw this.communicationFailure();
+    }
+  }
+
+  /**
+   * Handle the "GET" requests from HomeKit for the On Characteristic of a channel
+   */
+  async getOn(channel: number): Promise<CharacteristicValue> {
+    this.assertReachable();
+
+    try {
+      await this.ensureConnected();
+
+      const isOn = await this.bleController.readChannelState(channel);
+      if (isOn !== null) {
+        this.recordState(channel, isOn, true);
+        this.markAvailable();
+        this.platform.log.debug(`Get Characteristic On of channel ${channel + 1} -> (from device)`, isOn);
+        return isOn;
+      }
+
+      this.markFailing();
+      this.platform.log.warn(`Failed to read state of channel ${channel + 1} from device, returning cached state`);
+      return this.getCachedValue(this.states[channel]);
+    } catch (error) {
+      if (error instanceof this.platform.api.hap.HapStatusError) {
+        throw error;
+      }
+      this.markFailing();
+      this.platform.log.error(`Error in getOn of channel ${channel + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return this.getCachedValue(this.states[channel]);
+    }
+  }
+}
@@ -8,12 +8,96 @@ import type {
   Service,
 } from 'homebridge';
 
-import { SchneiderBLELampsAccessory } from './platformAccessory.js';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings.js';
-import { BLEController } from './bleController.js';
+import { BLEConnectionManager } from './connectionManager.js';
+import type { ConnectionMode, OperationTimeouts } from './bleController.js';
+import { DEFAULT_OPERATION_TIMEOUTS } from './bleController.js';
+import type { DiscoveryMode } from './discoveryService.js';
+import { DiscoveryService } from './discoveryService.js';
+import { DeviceRegistry } from './deviceRegistry.js';
+import type { DeviceAccessoryHandler, DeviceProfile, LampServiceType } from './deviceProfiles.js';
+import { DeviceProfileRegistry } from './deviceProfiles.js';
+import type { BLETransport } from './bleTransport.js';
+import type { CharacteristicOverrides } from './characteristicBindings.js';
+import { NobleTransport } from './bleTransport.js';
+import type { SimulatedLampConfig, SimulatedShutterConfig } from './simulatedTransport.js';
+import { SimulatedTransport } from './simulatedTransport.js';
+import type { GattProfile } from './gattProfile.js';
+import { loadGattProfile } from './gattProfile.js';
+import type { ApiOptions } from './apiServer.js';
+import { DEFAULT_API_OPTIONS, LampApiServer } from './apiServer.js';
+import type { MetricsOptions } from './metrics.js';
+import type { MqttOptions } from './mqttBridge.js';
+import { DEFAULT_MQTT_OPTIONS, MqttBridge } from './mqttBridge.js';
+import { BLEMetrics, DEFAULT_METRICS_OPTIONS, MetricsServer } from './metrics.js';
 
 // This is only required when using Custom Services and Characteristics not support by HomeKit
 import { EveHomeKitTypes } from 'homebridge-lib/EveHomeKitTypes';
+import { DiagnosticHomeKitTypes } from './diagnosticTypes.js';
+
+/**
+ * Channel of a multi-channel device, each channel is exposed as its own service
+ */
+export interface LampChannelConfig {
+  name?: string;
+  // characteristic switching the channel, defaults to the characteristic of the device model
+  characteristic?: string;
+  // index of the channel within a characteristic shared by several channels
+  index?: number;
+}
+
+/**
+ * Statically configured device from the `devices` platform option
+ */
+export interface LampDeviceConfig {
+  address: string;
+  name: string;
+  // id of the device profile, detected from the advertisement when omitted
+  profile?: string;
+  characteristic?: string;
+  // characteristics replacing the assumed characteristics of the device model, by role
+  characteristics?: CharacteristicOverrides;
+  exposeAs?: LampServiceType;
+  // seconds a shutter takes from closed to open
+  travelTime?: number;
+  // power of a lamp at full brightness in W, enables the Eve energy characteristics and history
+  wattage?: number;
+  // channels of multi-channel devices, defaults to the channels of the device model
+  channels?: LampChannelConfig[];
+  // overrides the platform `connectionMode`
+  connectionMode?: ConnectionMode;
+}
+
+/**
+ * How unreachable lamps are reported to HomeKit
+ */
+export interface ReachabilityOptions {
+  // Seconds a lamp may be disconnected or failing before it is reported as not responding
+  gracePeriod: number;
+  // When reads of an unreachable lamp return the cached value instead of failing
+  cachedReads: 'grace' | 'always' | 'never';
+}
+
+/**
+ * Device information stored in `accessory.context.device`
+ */
+export interface DeviceInfo {
+  uniqueId: string;
+  displayName: string;
+  address: string;
+  deviceAddress: string;
+  // id of the device profile, the default lamp profile when missing
+  profile?: string;
+  characteristic?: string;
+  characteristics?: CharacteristicOverrides;
+  exposeAs?: LampServiceType;
+  travelTime?: number;
+  wattage?: number;
+  channels?: LampChannelConfig[];
+  // true for devices from the `devices` platform option
+  configured?: boolean;
+  dimmable?: boolean;
+}
 
 /**
  * HomebridgePlatform
@@ -28,12 +112,39 @@ export class SchneiderBLELampsPlatform implements DynamicPlatformPlugin {
   public readonly accessories: Map<string, PlatformAccessory> = new Map();
   public readonly discoveredCacheUUIDs: string[] = [];
 
-  // BLE controller for handling device communication
-  public readonly bleController: BLEController;
+  // Connection manager holding one BLE controller per device
+  public readonly connectionManager: BLEConnectionManager;
 
   // Map to store peripherals by address to avoid circular references
   private readonly peripheralsByAddress: Map<string, unknown> = new Map();
 
+  // Accessory handlers by lowercase device address
+  private readonly lampAccessories: Map<string, DeviceAccessoryHandler> = new Map();
+  private readonly configuredAddresses: Set<string> = new Set();
+  private readonly connectingAddresses: Set<string> = new Set();
+
+  // Background discovery of new devices
+  public readonly discoveryService: DiscoveryService;
+
+  // Supported device models, other models can be registered before the devices are discovered
+  public readonly deviceProfiles = new DeviceProfileRegistry();
+
+  // Last-seen times of the registered lamps, persisted in the accessory context
+  private readonly deviceRegistry: DeviceRegistry;
+  private readonly seenUUIDs: Set<string> = new Set();
+  private readonly removedAddresses: Set<string>;
+  private registryCheckInterval: NodeJS.Timeout | null = null;
+
+  // How lamps that cannot be reached are reported to HomeKit
+  public readonly reachability: ReachabilityOptions;
+
+  // Local endpoint serving the BLE metrics, null unless enabled
+  private metricsServer: MetricsServer | null = null;
+  // Local REST API to control the lamps, null unless enabled
+  private apiServer: LampApiServer | null = null;
+  // Bridge publishing the lamps to an MQTT broker, null unless enabled
+  private mqttBridge: MqttBridge | null = null;
+
   // This is only required when using Custom Services and Characteristics not support by HomeKit
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   public readonly CustomServices: any;
@@ -50,10 +161,59 @@ export class SchneiderBLELampsPlatform implements DynamicPlatformPlugin {
 
     // This is only required when using Custom Services and Characteristics not support by HomeKit
     this.CustomServices = new EveHomeKitTypes(this.api).Services;
-    this.CustomCharacteristics = new EveHomeKitTypes(this.api).Characteristics;
+    this.CustomCharacteristics = {
+      ...new EveHomeKitTypes(this.api).Characteristics,
+      ...new DiagnosticHomeKitTypes(this.api).Characteristics,
+    };
+
+    // Initialize BLE connection manager and discovery with the configured transport
+    const transport = this.createTransport();
+    this.connectionManager = new BLEConnectionManager(this.log, transport);
+    this.discoveryService = new DiscoveryService(this.log, transport);
+    // scanning is paused while a lamp is connecting
+    this.connectionManager.setConnectionAttemptHooks(this.discoveryService);
+
+    this.deviceRegistry = new DeviceRegistry(this.api);
+    this.removedAddresses = new Set(
+      ((this.config.removeDevices as string[] | undefined) ?? []).map((address) => address.trim().toLowerCase()),
+    );
+
+    this.reachability = {
+      gracePeriod: Math.max(0, (this.config.unreachableGracePeriod as number) ?? 30),
+      cachedReads: (this.config.cachedReads as ReachabilityOptions['cachedReads']) ?? 'grace',
+    };
+
+    const metricsOptions: MetricsOptions = {
+      ...DEFAULT_METRICS_OPTIONS,
+      ...(this.config.metrics as Partial<MetricsOptions> | undefined),
+    };
+    if (metricsOptions.enabled) {
+      const metrics = new BLEMetrics();
+      this.connectionManager.setMetrics(metrics);
+      this.discoveryService.setMetrics(metrics);
+      this.metricsServer = new MetricsServer(this.log, metrics);
+      this.metricsServer.start(metricsOptions.port, metricsOptions.host);
+    }
 
-    // Initialize BLE controller with configuration
-    this.bleController = new BLEController(this.log);
+    const apiOptions: ApiOptions = {
+      ...DEFAULT_API_OPTIONS,
+      ...(this.config.api as Partial<ApiOptions> | undefined),
+    };
+    if (apiOptions.enabled && !apiOptions.token) {
+      this.log.error('REST API is enabled but no token is configured, the API is not started');
+    } else if (apiOptions.enabled) {
+      this.apiServer = new LampApiServer(this, apiOptions.token!);
+      this.apiServer.start(apiOptions.port, apiOptions.host);
+    }
+
+    const mqttOptions: MqttOptions = {
+      ...DEFAULT_MQTT_OPTIONS,
+      ...(this.config.mqtt as Partial<MqttOptions> | undefined),
+    };
+    if (mqttOptions.enabled) {
+      this.mqttBridge = new MqttBridge(this, mqttOptions);
+      this.mqttBridge.start();
+    }
 
     this.log.debug('Finished initializing platform:', this.config.name);
 
@@ -66,7 +226,7 @@ export class SchneiderBLELampsPlatform implements DynamicPlatformPlugin {
 
       try {
         // Initialize BLE controller
-        await this.bleController.init();
+        await this.connectionManager.init();
         this.log.info('BLE controller initialized successfully');
 
         // Configure BLE controller with user settings
@@ -77,19 +237,32 @@ export class SchneiderBLELampsPlatform implements DynamicPlatformPlugin {
           (this.config.connectionMonitorInterval as number) ?? 10;
         const initialReconnectionDelay =
           (this.config.initialReconnectionDelay as number) ?? 1000;
+        const maxConnections = (this.config.maxConnections as number) ?? 5;
+        const operationTimeouts: OperationTimeouts = {
+          ...DEFAULT_OPERATION_TIMEOUTS,
+          ...(this.config.timeouts as Partial<OperationTimeouts> | undefined),
+        };
 
-        this.bleController.setAutoReconnect(autoReconnect);
-        this.bleController.setMaxReconnectionAttempts(maxReconnectionAttempts);
-        this.bleController.setConnectionMonitorInterval(
+        this.connectionManager.configure({
+          autoReconnect,
+          maxReconnectionAttempts,
           connectionMonitorInterval,
-        );
-        this.bleController.setInitialReconnectionDelay(
           initialReconnectionDelay,
-        );
+          operationTimeouts,
+          connectionMode: (this.config.connectionMode as ConnectionMode) ?? 'persistent',
+          idleDisconnectDelay: (this.config.idleDisconnectDelay as number) ?? 30,
+        });
+        this.connectionManager.setMaxConnections(maxConnections);
+
+        this.discoveryService.configure({
+          mode: (this.config.discoveryMode as DiscoveryMode) ?? 'interval',
+          scanDuration: (this.config.scanDuration as number) || 10,
+          interval: (this.config.discoveryInterval as number) ?? 60,
+        });
 
         this.log.info(
           // eslint-disable-next-line max-len
-          `BLE controller configured: autoReconnect=${autoReconnect}, maxAttempts=${maxReconnectionAttempts}, monitorInterval=${connectionMonitorInterval}s, initialDelay=${initialReconnectionDelay}ms`,
+          `BLE controller configured: autoReconnect=${autoReconnect}, maxAttempts=${maxReconnectionAttempts}, monitorInterval=${connectionMonitorInterval}s, initialDelay=${initialReconnectionDelay}ms, maxConnections=${maxConnections}`,
         );
 
         // run the method to discover / register your devices as accessories
@@ -105,6 +278,55 @@ export class SchneiderBLELampsPlatform implements DynamicPlatformPlugin {
         );
       }
     });
+
+    // Release all BLE connections when Homebridge shuts down
+    this.api.on('shutdown', () => {
+      this.discoveryService.stop();
+      this.metricsServer?.stop();
+      this.apiServer?.stop();
+      this.mqttBridge?.stop();
+      if (this.registryCheckInterval) {
+        clearInterval(this.registryCheckInterval);
+      }
+      this.connectionManager.disconnectAll().catch((error) => {
+        this.log.debug(
+          `Error disconnecting devices on shutdown: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+        );
+      });
+    });
+  }
+
+  /**
+   * Create the BLE transport, either the real adapter or the simulated lamps
+   */
+  private createTransport(): BLETransport {
+    if (this.config.simulate) {
+      this.log.warn('Simulation mode enabled, no real Bluetooth devices will be used');
+      return new SimulatedTransport(this.log, {
+        lamps: this.config.simulatedLamps as SimulatedLampConfig[] | undefined,
+        shutters: this.config.simulatedShutters as SimulatedShutterConfig[] | undefined,
+        profiles: this.loadSimulatedProfiles(),
+        latency: this.config.simulatedLatency as number | undefined,
+      });
+    }
+    return new NobleTransport();
+  }
+
+  /**
+   * Load the GATT profiles replayed in simulation mode, skipping files that cannot be loaded
+   */
+  private loadSimulatedProfiles(): GattProfile[] {
+    const profiles: GattProfile[] = [];
+    for (const path of (this.config.simulatedProfiles as string[] | undefined) ?? []) {
+      try {
+        profiles.push(loadGattProfile(path));
+      } catch (error) {
+        this.log.error(error instanceof Error ? error.message : `Cannot load GATT profile ${path}`);
+      }
+    }
+    return profiles;
   }
 
   /**
@@ -129,6 +351,7 @@ export class SchneiderBLELampsPlatform implements DynamicPlatformPlugin {
       const scanDuration = (this.config.scanDuration as number) || 10;
       const deviceFilter = (this.config.deviceFilter as string) || 'Schneider';
       const debug = (this.config.debug as boolean) || false;
+      const configuredDevices = this.getConfiguredDevices();
 
       // Clear the peripherals map before scanning
       this.peripheralsByAddress.clear();
@@ -137,194 +360,416 @@ export class SchneiderBLELampsPlatform implements DynamicPlatformPlugin {
         this.log.debug('Configuration:', {
           scanDuration,
           deviceFilter,
+          discoveryMode: this.config.discoveryMode ?? 'interval',
+          configuredDevices: configuredDevices.length,
           autoReconnect: this.config.autoReconnect,
           debug,
         });
       }
 
-      // Scan for BLE devices
+      // Configured devices are always registered, even when they are not advertising right now
+      for (const deviceConfig of configuredDevices) {
+        this.configuredAddresses.add(deviceConfig.address);
+        this.connectionManager.setDeviceConnectionMode(deviceConfig.address, deviceConfig.connectionMode);
+        this.registerDevice({
+          uniqueId: deviceConfig.address,
+          displayName: deviceConfig.name,
+          address: deviceConfig.address,
+          deviceAddress: deviceConfig.address,
+          profile: deviceConfig.profile,
+          characteristic: deviceConfig.characteristic,
+          characteristics: deviceConfig.characteristics,
+          exposeAs: deviceConfig.exposeAs,
+          travelTime: deviceConfig.travelTime,
+          wattage: deviceConfig.wattage,
+          channels: deviceConfig.channels,
+          configured: true,
+        });
+      }
+
+      // Keep discovering devices in the background, lamps that show up later are registered as they advertise
+      this.discoveryService.onDeviceDiscovered((peripheral) => {
+        this.handleDiscoveredPeripheral(peripheral, deviceFilter);
+      });
+      this.discoveryService.start();
+
+      // Wait for the first scan window before cleaning up the cached accessories
       this.log.info(`Scanning for BLE devices for ${scanDuration} seconds...`);
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const devices = (await (this.bleController.scanDevices as any)(
-        scanDuration,
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      )) as any[];
+      await new Promise((resolve) => setTimeout(resolve, scanDuration * 1000));
 
+      const devices = this.discoveryService.getDiscoveredDevices();
       if (devices.length === 0) {
         this.log.warn('No BLE devices found during scan');
-        return;
+      } else {
+        this.log.info(`Found ${devices.length} BLE devices`);
       }
 
-      this.log.info(`Found ${devices.length} BLE devices`);
-
-      // Filter for Schneider BLE lamps based on configuration
-      const lampDevices = devices.filter((device) => {
-        const name = device.advertisement?.localName;
-        if (!name) {
-          return false;
-        }
+      if (this.seenUUIDs.size === 0) {
+        this.log.warn('No Schneider BLE lamps found during scan');
+      } else {
+        this.log.info(`Found ${this.seenUUIDs.size} Schneider BLE lamps`);
+      }
 
-        // Use the device filter from configuration (case-insensitive)
-        return name.toLowerCase().includes(deviceFilter.toLowerCase());
-      });
+      // cached accessories which were not seen stay registered until they have been absent for too long
+      this.removeExpiredDevices();
+      this.restoreMissingDevices();
+      this.registryCheckInterval = setInterval(() => this.removeExpiredDevices(), 60 * 60 * 1000);
+    } catch (error) {
+      this.log.error(
+        `Error discovering devices: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      );
+      if (error instanceof Error && error.stack) {
+        this.log.error(`Error stack: ${error.stack}`);
+      }
+      this.log.error(
+        'This error might be related to BLE initialization or device scanning.',
+      );
+    }
+  }
 
-      // Store peripherals by address for later use
-      for (const device of lampDevices) {
-        this.peripheralsByAddress.set(device.address, device);
+  /**
+   * Register the handlers of cached lamps that were not seen during the first scan, marked as unreachable
+   * until they advertise again, so they keep their HomeKit room, name and automations.
+   */
+  private restoreMissingDevices(): void {
+    for (const [uuid, accessory] of this.accessories) {
+      if (this.seenUUIDs.has(uuid) || !accessory.context.device?.address) {
+        continue;
       }
 
-      if (lampDevices.length === 0) {
-        this.log.warn('No Schneider BLE lamps found during scan');
-        return;
+      const address = accessory.context.device.address.toLowerCase();
+      if (!this.lampAccessories.has(address)) {
+        this.registerDevice(accessory.context.device);
       }
+      this.lampAccessories.get(address)?.setReachable(false);
 
-      this.log.info(`Found ${lampDevices.length} Schneider BLE lamps`);
+      const absenceHours = Math.floor(this.deviceRegistry.getAbsence(accessory) / (60 * 60 * 1000));
+      this.log.warn(
+        `Lamp ${accessory.displayName} was not found (last seen ${absenceHours}h ago), keeping it registered as unreachable`,
+      );
+    }
+  }
 
-      // loop over the discovered devices and register each one if it has not already been registered
-      for (const device of lampDevices) {
-        this.log.debug('Processing discovered device:', {
-          address: device.address,
-          localName: device.advertisement?.localName,
-          rssi: device.rssi,
-        });
+  /**
+   * Remove cached lamps whose removal was requested in the config, or that have been absent
+   * for longer than the configured period. Configured devices are never removed automatically.
+   */
+  private removeExpiredDevices(): void {
+    const removeAfterDays = (this.config.removeMissingAfterDays as number) ?? 30;
 
-        // generate a unique id for the accessory using the device address
-        const uuid = this.api.hap.uuid.generate(device.address);
-        this.log.debug(`Generated UUID for device ${device.address}: ${uuid}`);
-
-        // create a device object with the necessary information
-        const deviceInfo = {
-          uniqueId: device.address,
-          displayName:
-            device.advertisement?.localName ||
-            `Schneider Lamp ${device.address.substring(
-              device.address.length - 4,
-            )}`,
-          // Store the device address in context for later use
-          address: device.address,
-          // Also store a copy directly in the context for easier access
-          deviceAddress: device.address,
-        };
+    // Lamps that are connected do not advertise, being connected counts as being seen
+    for (const [address, handler] of this.lampAccessories) {
+      if (this.connectionManager.getController(address).getIsConnected()) {
+        this.deviceRegistry.markSeen(handler.getAccessory());
+      }
+    }
 
-        this.log.debug('Created device info:', deviceInfo);
+    for (const [uuid, accessory] of this.accessories) {
+      const address = accessory.context.device?.address?.toLowerCase();
 
-        // Debug: Log all cached accessories
-        this.log.debug(`Total cached accessories: ${this.accessories.size}`);
-        for (const [cachedUuid, cachedAccessory] of this.accessories) {
-          this.log.debug(
-            `Cached accessory: UUID=${cachedUuid}, Name=${
-              cachedAccessory.displayName
-            }, Context=${JSON.stringify(cachedAccessory.context)}`,
-          );
+      if (address && this.removedAddresses.has(address)) {
+        if (this.configuredAddresses.has(address)) {
+          this.log.warn(`Lamp ${accessory.displayName} is both configured and marked for removal, keeping it`);
+          continue;
         }
+        this.log.info('Removing accessory as requested in the config:', accessory.displayName);
+        this.removeAccessory(uuid, accessory);
+        continue;
+      }
 
-        // see if an accessory with the same uuid has already been registered and restored from
-        // the cached devices we stored in the `configureAccessory` method above
-        const existingAccessory = this.accessories.get(uuid);
-        this.log.debug(
-          `Looking for existing accessory with UUID ${uuid}: ${
-            existingAccessory ? 'FOUND' : 'NOT FOUND'
-          }`,
+      if (removeAfterDays <= 0 || (address && this.configuredAddresses.has(address))) {
+        continue;
+      }
+
+      if (this.deviceRegistry.getAbsence(accessory) >= removeAfterDays * 24 * 60 * 60 * 1000) {
+        this.log.info(
+          `Removing accessory which was not seen for more than ${removeAfterDays} days:`,
+          accessory.displayName,
         );
+        this.removeAccessory(uuid, accessory);
+      }
+    }
+  }
 
-        if (existingAccessory) {
-          // the accessory already exists
-          this.log.info(
-            'Restoring existing accessory from cache:',
-            existingAccessory.displayName,
-          );
-          this.log.debug(
-            'Existing accessory context before update:',
-            JSON.stringify(existingAccessory.context, null, 2),
-          );
-
-          // update the accessory context with the current peripheral
-          // Make sure to preserve the device address from the discovered device
-          existingAccessory.context.device = {
-            ...existingAccessory.context.device,
-            ...deviceInfo,
-            // Ensure the address is properly set from the discovered device
-            address: device.address,
-            deviceAddress: device.address,
-          };
-
-          this.log.debug(
-            'Existing accessory context after update:',
-            JSON.stringify(existingAccessory.context, null, 2),
-          );
-          this.api.updatePlatformAccessories([existingAccessory]);
-
-          // create the accessory handler for the restored accessory
-          new SchneiderBLELampsAccessory(this, existingAccessory);
-        } else {
-          // the accessory does not yet exist, so we need to create it
-          this.log.info('Adding new accessory:', deviceInfo.displayName);
-          this.log.debug(
-            'Creating new accessory with device info:',
-            deviceInfo,
-          );
-
-          // create a new accessory
-          const accessory = new this.api.platformAccessory(
-            deviceInfo.displayName,
-            uuid,
-          );
-
-          // store a copy of the device object in the `accessory.context`
-          // the `context` property can be used to store any data about the accessory you may need
-          accessory.context.device = deviceInfo;
-
-          this.log.debug(
-            'New accessory context:',
-            JSON.stringify(accessory.context, null, 2),
-          );
-
-          // create the accessory handler for the newly create accessory
-          new SchneiderBLELampsAccessory(this, accessory);
-
-          // link the accessory to your platform
-          this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [
-            accessory,
-          ]);
-
-          // Add to our accessories map
-          this.accessories.set(uuid, accessory);
-        }
+  /**
+   * Unregister an accessory from Homebridge and forget its handler
+   */
+  private removeAccessory(uuid: string, accessory: PlatformAccessory): void {
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    this.accessories.delete(uuid);
+    this.deviceRegistry.forget(accessory);
+    this.seenUUIDs.delete(uuid);
+
+    const index = this.discoveredCacheUUIDs.indexOf(uuid);
+    if (index !== -1) {
+      this.discoveredCacheUUIDs.splice(index, 1);
+    }
 
-        // push into discoveredCacheUUIDs
-        this.discoveredCacheUUIDs.push(uuid);
-        this.log.debug(
-          `Added UUID ${uuid} to discoveredCacheUUIDs. Total discovered: ${this.discoveredCacheUUIDs.length}`,
-        );
+    const address = accessory.context.device?.address?.toLowerCase();
+    if (address && this.lampAccessories.delete(address)) {
+      this.mqttBridge?.removeLamp(address);
+      this.connectionManager.getController(address).disconnect().catch(() => {
+        // the lamp is gone, nothing left to clean up
+      });
+    }
+  }
+
+  /**
+   * Record that a registered lamp was seen and mark it reachable again
+   */
+  private markDeviceSeen(address: string): void {
+    const uuid = this.api.hap.uuid.generate(address);
+    const accessory = this.accessories.get(uuid);
+    if (!accessory) {
+      return;
+    }
+
+    this.deviceRegistry.markSeen(accessory);
+    if (!this.seenUUIDs.has(uuid)) {
+      this.seenUUIDs.add(uuid);
+      this.lampAccessories.get(address.toLowerCase())?.setReachable(true);
+    }
+  }
+
+  /**
+   * Register a device as accessory, restoring it from the cache if it was registered before
+   * @param deviceInfo - The device information stored in the accessory context
+   */
+  private registerDevice(deviceInfo: DeviceInfo): void {
+    // generate a unique id for the accessory using the device address
+    const uuid = this.api.hap.uuid.generate(deviceInfo.address);
+    this.log.debug(`Generated UUID for device ${deviceInfo.address}: ${uuid}`);
+
+    this.log.debug('Created device info:', deviceInfo);
+
+    // Debug: Log all cached accessories
+    this.log.debug(`Total cached accessories: ${this.accessories.size}`);
+    for (const [cachedUuid, cachedAccessory] of this.accessories) {
+      this.log.debug(
+        `Cached accessory: UUID=${cachedUuid}, Name=${
+          cachedAccessory.displayName
+        }, Context=${JSON.stringify(cachedAccessory.context)}`,
+      );
+    }
+
+    // see if an accessory with the same uuid has already been registered and restored from
+    // the cached devices we stored in the `configureAccessory` method above
+    const existingAccessory = this.accessories.get(uuid);
+    this.log.debug(
+      `Looking for existing accessory with UUID ${uuid}: ${
+        existingAccessory ? 'FOUND' : 'NOT FOUND'
+      }`,
+    );
+
+    if (existingAccessory) {
+      // the accessory already exists
+      this.log.info(
+        'Restoring existing accessory from cache:',
+        existingAccessory.displayName,
+      );
+      this.log.debug(
+        'Existing accessory context before update:',
+        JSON.stringify(existingAccessory.context, null, 2),
+      );
+
+      // update the accessory context with the current device information
+      // Make sure to preserve the device address from the discovered device
+      existingAccessory.context.device = {
+        ...existingAccessory.context.device,
+        ...deviceInfo,
+        // Ensure the address is properly set from the discovered device
+        address: deviceInfo.address,
+        deviceAddress: deviceInfo.address,
+        // configured devices without a model keep the one detected earlier
+        profile: deviceInfo.profile ?? existingAccessory.context.device?.profile,
+      };
+
+      this.log.debug(
+        'Existing accessory context after update:',
+        JSON.stringify(existingAccessory.context, null, 2),
+      );
+      this.api.updatePlatformAccessories([existingAccessory]);
+
+      // create the accessory handler of the device model for the restored accessory
+      const profile = this.getDeviceProfile(existingAccessory.context.device.profile);
+      this.lampAccessories.set(
+        deviceInfo.address.toLowerCase(),
+        new profile.accessory(this, existingAccessory, profile),
+      );
+    } else {
+      // the accessory does not yet exist, so we need to create it
+      this.log.info('Adding new accessory:', deviceInfo.displayName);
+      this.log.debug(
+        'Creating new accessory with device info:',
+        deviceInfo,
+      );
+
+      // create a new accessory
+      const accessory = new this.api.platformAccessory(
+        deviceInfo.displayName,
+        uuid,
+      );
+
+      // store a copy of the device object in the `accessory.context`
+      // the `context` property can be used to store any data about the accessory you may need
+      accessory.context.device = deviceInfo;
+
+      this.log.debug(
+        'New accessory context:',
+        JSON.stringify(accessory.context, null, 2),
+      );
+
+      // create the accessory handler of the device model for the newly create accessory
+      const profile = this.getDeviceProfile(deviceInfo.profile);
+      this.lampAccessories.set(
+        deviceInfo.address.toLowerCase(),
+        new profile.accessory(this, accessory, profile),
+      );
+
+      // link the accessory to your platform
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [
+        accessory,
+      ]);
+
+      // Add to our accessories map
+      this.accessories.set(uuid, accessory);
+    }
+
+    const handler = this.lampAccessories.get(deviceInfo.address.toLowerCase());
+    if (handler) {
+      this.mqttBridge?.addLamp(handler);
+    }
+
+    // push into discoveredCacheUUIDs
+    this.discoveredCacheUUIDs.push(uuid);
+    this.log.debug(
+      `Added UUID ${uuid} to discoveredCacheUUIDs. Total discovered: ${this.discoveredCacheUUIDs.length}`,
+    );
+  }
+
+  /**
+   * Get a device profile by id
+   * @param id - The profile id, undefined for the default lamp profile
+   * @returns The profile, the default lamp profile if the id is unknown
+   */
+  private getDeviceProfile(id: string | undefined): DeviceProfile {
+    if (id) {
+      const profile = this.deviceProfiles.get(id);
+      if (profile) {
+        return profile;
       }
+      this.log.warn(`Unknown device profile ${id}, using the default lamp profile`);
+    }
+    return this.deviceProfiles.getDefault();
+  }
 
-      // you can also deal with accessories from the cache which are no longer present by removing them from Homebridge
-      // for example, if your plugin logs into a cloud account to retrieve a device list, and a user has previously removed a device
-      // from this cloud account, then this device will no longer be present in the device list but will still be in the Homebridge cache
-      for (const [uuid, accessory] of this.accessories) {
-        if (!this.discoveredCacheUUIDs.includes(uuid)) {
-          this.log.info(
-            'Removing existing accessory from cache:',
-            accessory.displayName,
-          );
-          this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [
-            accessory,
-          ]);
-        }
+  /**
+   * Read the statically configured devices from the platform config
+   * @returns The valid device entries, with normalized addresses
+   */
+  private getConfiguredDevices(): LampDeviceConfig[] {
+    const entries = (this.config.devices as LampDeviceConfig[] | undefined) ?? [];
+    const devices: LampDeviceConfig[] = [];
+
+    for (const entry of entries) {
+      if (!entry?.address) {
+        this.log.warn('Ignoring configured device without address');
+        continue;
       }
-    } catch (error) {
-      this.log.error(
-        `Error discovering devices: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`,
-      );
-      if (error instanceof Error && error.stack) {
-        this.log.error(`Error stack: ${error.stack}`);
+      const address = entry.address.trim().toLowerCase();
+      devices.push({
+        ...entry,
+        address,
+        name: entry.name || `Schneider Lamp ${address.substring(address.length - 4)}`,
+      });
+    }
+
+    return devices;
+  }
+
+  /**
+   * Handle an advertisement received by the discovery service
+   * Configured devices are connected as soon as they advertise, unknown devices matching
+   * a device profile or the name filter are registered as new accessories.
+   * @param peripheral - The advertising peripheral
+   * @param deviceFilter - The device name filter
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private handleDiscoveredPeripheral(peripheral: any, deviceFilter: string): void {
+    const address = peripheral.address.toLowerCase();
+    if (this.removedAddresses.has(address) && !this.configuredAddresses.has(address)) {
+      return;
+    }
+
+    const handler = this.lampAccessories.get(address);
+
+    if (handler) {
+      this.peripheralsByAddress.set(peripheral.address, peripheral);
+      this.markDeviceSeen(peripheral.address);
+      // a device advertising again is in range, connections to it are worth trying again
+      const controller = this.connectionManager.getController(address);
+      if (controller.hasGivenUp()) {
+        this.log.info(`Lamp ${handler.getAccessory().displayName} is advertising again, resuming reconnection`);
+        controller.resetReconnection();
       }
-      this.log.error(
-        'This error might be related to BLE initialization or device scanning.',
-      );
+      if (this.configuredAddresses.has(address)) {
+        this.connectConfiguredDevice(address, handler);
+      }
+      return;
+    }
+
+    // Devices of a known model are always added, others only when matching the device filter from configuration (case-insensitive)
+    const name = peripheral.advertisement?.localName;
+    const matchedProfile = this.deviceProfiles.match(peripheral);
+    if (!matchedProfile && (!name || !name.toLowerCase().includes(deviceFilter.toLowerCase()))) {
+      return;
+    }
+    const profile = matchedProfile ?? this.deviceProfiles.getDefault();
+
+    this.log.info(`Discovered new ${profile.model}: ${name ?? 'unnamed'} (${peripheral.address})`);
+    this.log.debug('Processing discovered device:', {
+      address: peripheral.address,
+      localName: name,
+      rssi: peripheral.rssi,
+      profile: profile.id,
+    });
+
+    // Store peripherals by address for later use
+    this.peripheralsByAddress.set(peripheral.address, peripheral);
+
+    // create a device object with the necessary information
+    this.registerDevice({
+      uniqueId: peripheral.address,
+      displayName: name ?? `${profile.model} ${peripheral.address.replace(/:/g, '').slice(-4).toUpperCase()}`,
+      // Store the device address in context for later use
+      address: peripheral.address,
+      // Also store a copy directly in the context for easier access
+      deviceAddress: peripheral.address,
+      profile: profile.id,
+    });
+    this.markDeviceSeen(peripheral.address);
+  }
+
+  /**
+   * Connect a configured device that is advertising, unless it is already connected or connecting
+   */
+  private connectConfiguredDevice(address: string, handler: DeviceAccessoryHandler): void {
+    const controller = this.connectionManager.getController(address);
+    // Lamps in on-demand mode are only connected for commands
+    if (this.connectingAddresses.has(address) || controller.isActive() || controller.getConnectionMode() === 'on-demand') {
+      return;
     }
+
+    this.connectingAddresses.add(address);
+    handler.connect()
+      .catch(() => {
+        // errors are logged by the accessory, the connection is retried on the next advertisement
+      })
+      .finally(() => {
+        this.connectingAddresses.delete(address);
+      });
   }
 
   /**
@@ -335,4 +780,19 @@ export class SchneiderBLELampsPlatform implements DynamicPlatformPlugin {
   public getPeripheralByAddress(address: string): unknown {
     return this.peripheralsByAddress.get(address);
   }
+
+  /**
+   * Get the accessory handler of a registered device
+   * @param address - The BLE address of the device, in any case
+   */
+  public getAccessoryHandler(address: string): DeviceAccessoryHandler | undefined {
+    return this.lampAccessories.get(address.toLowerCase());
+  }
+
+  /**
+   * Get the accessory handlers of all registered devices
+   */
+  public getAccessoryHandlers(): DeviceAccessoryHandler[] {
+    return [...this.lampAccessories.values()];
+  }
 }
@@ -1,16 +1,44 @@
 import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
 
+import { DeviceAccessory } from './deviceAccessory.js';
+import type { DeviceProfile } from './deviceProfiles.js';
+import { EveEnergyHistory } from './eveHistory.js';
 import type { SchneiderBLELampsPlatform } from './platform.js';
 
+/**
+ * Where the last known lamp state came from
+ * - read: read from the device
+ * - notification: pushed by the device
+ * - write: assumed after a successful write
+ */
+export type LampStateSource = 'read' | 'notification' | 'write';
+
+/**
+ * Last known lamp state stored in `accessory.context.state`
+ */
+export interface PersistedLampState {
+  on: boolean;
+  brightness: number;
+  source: LampStateSource;
+  // Epoch milliseconds of the last read or notification from the device, null if never confirmed
+  lastReadAt: number | null;
+}
+
 /**
  * Platform Accessory
- * An instance of this class is created for each accessory your platform registers
+ * An instance of this class is created for each lamp your platform registers
  * Each accessory may expose multiple services of different service types.
  */
-export class SchneiderBLELampsAccessory {
+export class SchneiderBLELampsAccessory extends DeviceAccessory {
+  // Minimum time between two cache writes caused only by a new read time
+  private static readonly STATE_PERSIST_INTERVAL_MS = 5 * 60 * 1000;
+
   private service!: Service;
-  private peripheral: unknown;
-  private isConnected = false;
+  // true while the state restored from the cache has not been confirmed by the device
+  private stale = false;
+  private lastPersisted = 0;
+  // energy use and on/off history, only for lamps with a configured wattage
+  private energy: EveEnergyHistory | null = null;
 
   /**
    * Track the state of the accessory
@@ -21,34 +49,21 @@ export class SchneiderBLELampsAccessory {
   };
 
   constructor(
-    private readonly platform: SchneiderBLELampsPlatform,
-    private readonly accessory: PlatformAccessory,
+    platform: SchneiderBLELampsPlatform,
+    accessory: PlatformAccessory,
+    profile: DeviceProfile,
   ) {
-    // set accessory information
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.platform.Characteristic.Manufacturer, 'Schneider Electric')
-      .setCharacteristic(this.platform.Characteristic.Model, 'BLE Lamp')
-      .setCharacteristic(this.platform.Characteristic.SerialNumber, this.accessory.context.device.uniqueId || 'SCH-BLE-LAMP');
-
-    // Debug: Log the accessory context to verify device information
-    this.platform.log.debug('Accessory context:', JSON.stringify(this.accessory.context, null, 2));
-    
-    // Verify that device information is properly stored
+    super(platform, accessory, profile);
+
     if (!this.accessory.context.device) {
-      this.platform.log.error('Device information not found in accessory context');
       return;
     }
-    
-    if (!this.accessory.context.device.address && !this.accessory.context.device.deviceAddress) {
-      this.platform.log.error('Device address not found in accessory context');
-      this.platform.log.debug('Available device context properties:', Object.keys(this.accessory.context.device));
-    } else {
-      this.platform.log.debug('Device address found in accessory context:',
-        this.accessory.context.device.address || this.accessory.context.device.deviceAddress);
-    }
 
-    // get the LightBulb service if it exists, otherwise create a new LightBulb service
-    this.service = this.accessory.getService(this.platform.Service.Lightbulb) || this.accessory.addService(this.platform.Service.Lightbulb);
+    // get the service for the configured type if it exists, otherwise create the service of the model
+    // and remove the service of the previous type, so that the lamp does not show up twice
+    const serviceType = this.getLampServiceType();
+    this.removeStaleLampServices((service) => service.UUID === serviceType.UUID && !service.subtype);
+    this.service = this.accessory.getService(serviceType) || this.accessory.addService(serviceType);
 
     // set the service name, this is what is displayed as the default name on the Home app
     this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.context.device.displayName);
@@ -61,77 +76,167 @@ export class SchneiderBLELampsAccessory {
       .onSet(this.setOn.bind(this)) // SET - bind to the `setOn` method below
       .onGet(this.getOn.bind(this)); // GET - bind to the `getOn` method below
 
-    // register handlers for the Brightness Characteristic
-    this.service.getCharacteristic(this.platform.Characteristic.Brightness)
-      .onSet(this.setBrightness.bind(this)); // SET - bind to the `setBrightness` method below
+    // the Brightness Characteristic is only exposed on lamps known to support dimming,
+    // support is detected on connection and remembered in the accessory context
+    this.configureBrightness(this.accessory.context.device.dimmable === true);
+
+    this.exposeDiagnostics(this.service);
+
+    const wattage = this.accessory.context.device.wattage as number | undefined;
+    if (wattage && wattage > 0) {
+      this.energy = new EveEnergyHistory(this.platform, this.accessory, this.service, wattage);
+    }
+
+    // show the state from before the restart right away instead of "off"
+    this.restoreState();
+
+    // push state changes reported by the lamp (e.g. the wall switch) to HomeKit
+    this.bleController?.on('stateChanged', (change) => {
+      if (change.kind !== 'lamp') {
+        return;
+      }
+      this.recordState({ On: change.isOn }, 'notification');
+      this.service.updateCharacteristic(this.platform.Characteristic.On, change.isOn);
+      this.platform.log.debug(`Lamp state changed on device -> ${change.isOn}`);
+    });
+    // changes while disconnected are not notified, the state is confirmed again on the next connect
+    this.bleController?.on('disconnected', () => {
+      this.stale = true;
+    });
 
     // Note: We don't set up peripheral event handlers in the constructor anymore
     // Instead, we'll get the peripheral when we need to connect
   }
 
   /**
-   * Set up peripheral event handlers
+   * Update the dimming support and confirm a stale state once connected
+   */
+  protected override onConnected(): void {
+    this.updateDimmingSupport();
+    this.refreshStaleState().catch((error) => {
+      this.platform.log.debug(`Failed to refresh restored state: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+
+  /**
+   * Add or remove the Brightness Characteristic
+   * @param dimmable - Whether the lamp supports dimming
    */
-  private setupPeripheralEventHandlers(peripheral: { address: string; on: (event: string, callback: () => void) => void }): void {
-    if (!peripheral) {
-      this.platform.log.error('Cannot set up event handlers: peripheral is undefined');
+  private configureBrightness(dimmable: boolean): void {
+    if (dimmable && this.service.UUID === this.platform.Service.Lightbulb.UUID) {
+      // register handlers for the Brightness Characteristic
+      this.service.getCharacteristic(this.platform.Characteristic.Brightness)
+        .onSet(this.setBrightness.bind(this)) // SET - bind to the `setBrightness` method below
+        .onGet(this.getBrightness.bind(this)); // GET - bind to the `getBrightness` method below
+    } else if (this.service.testCharacteristic(this.platform.Characteristic.Brightness)) {
+      // on/off-only lamp, remove the slider left over from earlier versions
+      this.service.removeCharacteristic(this.service.getCharacteristic(this.platform.Characteristic.Brightness));
+    }
+  }
+
+  /**
+   * Expose or hide brightness control when the detected dimming support changed
+   */
+  private updateDimmingSupport(): void {
+    const dimmable = this.bleController.supportsDimming();
+    if (this.accessory.context.device.dimmable === dimmable) {
       return;
     }
 
-    this.peripheral = peripheral;
+    this.platform.log.info(`Lamp ${this.accessory.displayName} ${dimmable ? 'supports' : 'does not support'} dimming`);
+    this.accessory.context.device.dimmable = dimmable;
+    this.configureBrightness(dimmable);
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+  }
 
-    peripheral.on('connect', () => {
-      this.isConnected = true;
-      this.platform.log.info(`Connected to lamp: ${this.accessory.displayName}`);
-    });
+  /**
+   * Restore the last known state saved in the accessory context
+   * The restored state is stale until it is confirmed by a read or notification from the lamp.
+   */
+  private restoreState(): void {
+    const saved = this.accessory.context.state as PersistedLampState | undefined;
+    if (!saved) {
+      return;
+    }
 
-    peripheral.on('disconnect', () => {
-      this.isConnected = false;
-      this.peripheral = null;
-      this.platform.log.info(`Disconnected from lamp: ${this.accessory.displayName}`);
-    });
+    this.states.On = saved.on;
+    this.states.Brightness = saved.brightness;
+    this.stale = true;
+    this.service.updateCharacteristic(this.platform.Characteristic.On, saved.on);
+    if (this.service.testCharacteristic(this.platform.Characteristic.Brightness)) {
+      this.service.updateCharacteristic(this.platform.Characteristic.Brightness, saved.brightness);
+    }
+    this.updateEnergy();
+
+    const age = saved.lastReadAt === null ? 'never confirmed' : `last read ${new Date(saved.lastReadAt).toISOString()}`;
+    this.platform.log.debug(`Restored ${saved.on ? 'on' : 'off'} state of ${this.accessory.displayName} from ${saved.source} (${age})`);
   }
 
   /**
-   * Connect to the BLE device
+   * Pass the lamp state to the energy history, the power of lamps without brightness control does not scale
    */
-  private async connectToDevice(): Promise<void> {
-    try {
-      // Find the peripheral by address from the platform
-      // Try both possible locations for the device address
-      let deviceAddress = this.accessory.context.device?.address;
-      if (!deviceAddress) {
-        deviceAddress = this.accessory.context.device?.deviceAddress;
-      }
-      
-      if (!deviceAddress) {
-        throw new Error('Device address not found in accessory context');
-      }
+  private updateEnergy(): void {
+    const dimmable = this.service.testCharacteristic(this.platform.Characteristic.Brightness);
+    this.energy?.update(this.states.On, dimmable ? this.states.Brightness : 100);
+  }
 
-      this.platform.log.debug(`Retrieved device address: ${deviceAddress}`);
+  /**
+   * Update the known lamp state and save it in the accessory context
+   * Changed values are persisted right away, read times at most every few minutes.
+   * @param changes - The changed characteristic values
+   * @param source - Where the values came from
+   */
+  private recordState(changes: Partial<typeof this.states>, source: LampStateSource): void {
+    Object.assign(this.states, changes);
+    this.updateEnergy();
+
+    const now = Date.now();
+    const previous = this.accessory.context.state as PersistedLampState | undefined;
+    const confirmed = source !== 'write';
+    const state: PersistedLampState = {
+      on: this.states.On,
+      brightness: this.states.Brightness,
+      source,
+      lastReadAt: confirmed ? now : previous?.lastReadAt ?? null,
+    };
+    this.accessory.context.state = state;
+    if (confirmed) {
+      this.stale = false;
+    }
 
-      // Get the peripheral from the platform's peripheral map
-      const peripheral = this.platform.getPeripheralByAddress(deviceAddress) as { address: string; on: (event: string, callback: () => void) => void };
-      if (!peripheral) {
-        throw new Error(`Peripheral not found for address: ${deviceAddress}`);
-      }
+    const changed = !previous || previous.on !== state.on || previous.brightness !== state.brightness || previous.source !== state.source;
+    if (changed || now - this.lastPersisted >= SchneiderBLELampsAccessory.STATE_PERSIST_INTERVAL_MS) {
+      this.lastPersisted = now;
+      this.platform.api.updatePlatformAccessories([this.accessory]);
+    }
+  }
 
-      // Set up event handlers for this peripheral
-      this.setupPeripheralEventHandlers(peripheral);
+  /**
+   * Check whether the state shown in HomeKit was restored from the cache or may have changed while disconnected
+   */
+  public isStateStale(): boolean {
+    return this.stale;
+  }
 
-      // Check if we're already connected to the right device
-      if (!this.platform.bleController.getIsConnected() ||
-          this.platform.bleController.getPeripheral()?.address !== deviceAddress) {
-        
-        // Enable auto-reconnection for this device
-        this.platform.bleController.setAutoReconnect(true);
-        
-        // Connect to the peripheral
-        await this.platform.bleController.connect(peripheral);
+  /**
+   * Confirm a restored state, or one that may have changed while disconnected, with a fresh read after connecting
+   */
+  private async refreshStaleState(): Promise<void> {
+    if (!this.stale) {
+      return;
+    }
+
+    const isOn = await this.bleController.readLampState();
+    if (isOn !== null) {
+      this.recordState({ On: isOn }, 'read');
+      this.service.updateCharacteristic(this.platform.Characteristic.On, isOn);
+    }
+    if (this.bleController.supportsDimming() && this.service.testCharacteristic(this.platform.Characteristic.Brightness)) {
+      const brightness = await this.bleController.readBrightness();
+      if (brightness !== null) {
+        this.recordState({ Brightness: brightness }, 'read');
+        this.service.updateCharacteristic(this.platform.Characteristic.Brightness, brightness);
       }
-    } catch (error) {
-      this.platform.log.error(`Failed to connect to lamp: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      throw error; // Re-throw to allow retry logic in calling methods
     }
   }
 
@@ -140,6 +245,8 @@ export class SchneiderBLELampsAccessory {
    * These are sent when the user changes the state of an accessory, for example, turning on a Light bulb.
    */
   async setOn(value: CharacteristicValue) {
+    this.assertReachable();
+
     const maxRetries = 3;
     let retryCount = 0;
     
@@ -156,48 +263,48 @@ export class SchneiderBLELampsAccessory {
         
         if (!deviceAddress) {
           this.platform.log.error('Device address not found in accessory context');
-          // Revert the state in HomeKit if there was an error
-          setTimeout(() => {
-            this.service.updateCharacteristic(this.platform.Characteristic.On, this.states.On);
-          }, 100);
-          return;
+          throw this.communicationFailure();
         }
 
         // Always try to ensure connection before sending commands
-        if (!this.platform.bleController.getIsConnected() ||
-            this.platform.bleController.getPeripheral()?.address !== deviceAddress) {
-          this.platform.log.debug('Not connected or connected to different device, attempting connection...');
+        if (!this.bleController.getIsConnected()) {
+          this.platform.log.debug('Not connected to device, attempting connection...');
           await this.connectToDevice();
         }
 
         // Send the command to the device
         let success = false;
         if (isOn) {
-          success = await this.platform.bleController.turnLampOn();
+          success = await this.bleController.turnLampOn();
         } else {
-          success = await this.platform.bleController.turnLampOff();
+          success = await this.bleController.turnLampOff();
         }
 
         if (success) {
-          this.states.On = isOn;
+          this.recordState({ On: isOn }, 'write');
+          this.markAvailable();
           this.platform.log.debug(`Set Characteristic On -> ${isOn} (successful)`);
         } else {
           throw new Error(`Failed to set lamp state to ${isOn}`);
         }
       } catch (error) {
+        if (error instanceof this.platform.api.hap.HapStatusError) {
+          throw error;
+        }
+
         retryCount++;
+        this.markFailing();
         this.platform.log.error(`Error in setOn (attempt ${retryCount}/${maxRetries}): ${error instanceof Error ? error.message : 'Unknown error'}`);
         
-        if (retryCount < maxRetries) {
+        // Retrying is pointless once reconnection has failed, report the lamp as not responding right away
+        if (retryCount < maxRetries && this.isWithinGracePeriod()) {
           this.platform.log.info(`Retrying setOn operation in 1 second... (attempt ${retryCount + 1}/${maxRetries})`);
           await new Promise(resolve => setTimeout(resolve, 1000));
           return attemptSetOn();
         } else {
-          this.platform.log.error(`Failed to set lamp state after ${maxRetries} attempts`);
-          // Revert the state in HomeKit if all attempts failed
-          setTimeout(() => {
-            this.service.updateCharacteristic(this.platform.Characteristic.On, this.states.On);
-          }, 100);
+          this.platform.log.error(`Failed to set lamp state after ${retryCount} attempts`);
+          // HomeKit reverts the value and shows the lamp as "Not Responding"
+          throw this.communicationFailure();
         }
       }
     };
@@ -216,11 +323,16 @@ export class SchneiderBLELampsAccessory {
    * asynchronously instead using the `updateCharacteristic` method instead.
    * In this case, you may decide not to implement `onGet` handlers, which may speed up
    * the responsiveness of your device in the Home app.
+   *
+   * When the lamp cannot be reached, the cached state is returned according to the
+   * platform's cached read setting, otherwise the lamp shows as "Not Responding".
 
    * @example
    * this.service.updateCharacteristic(this.platform.Characteristic.On, true)
    */
   async getOn(): Promise<CharacteristicValue> {
+    this.assertReachable();
+
     try {
       // Try to read the actual state from the device
       // First ensure we're connected to the device
@@ -231,44 +343,47 @@ export class SchneiderBLELampsAccessory {
       
       if (!deviceAddress) {
         this.platform.log.warn('Device address not found, returning cached state');
-        return this.states.On;
+        return this.getCachedValue(this.states.On);
       }
 
-      // Check if we're connected to the right device
-      if (!this.platform.bleController.getIsConnected() ||
-          this.platform.bleController.getPeripheral()?.address !== deviceAddress) {
+      // Check if this lamp's controller is connected
+      if (!this.bleController.getIsConnected()) {
         this.platform.log.debug('Not connected to device, attempting connection for state read...');
         try {
           await this.connectToDevice();
         } catch (error) {
+          this.markFailing();
           this.platform.log.warn(`Failed to connect for state read: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          return this.states.On;
+          return this.getCachedValue(this.states.On);
         }
       }
 
       // Read the actual state from the characteristic
-      const actualState = await this.platform.bleController.readLampState();
+      const actualState = await this.bleController.readLampState();
       
       if (actualState !== null) {
         // Update our cached state with the actual state
-        this.states.On = actualState;
+        this.recordState({ On: actualState }, 'read');
+        this.markAvailable();
         this.platform.log.debug('Get Characteristic On -> (from device)', actualState);
         return actualState;
       } else {
         // Fall back to cached state if read failed
+        this.markFailing();
         this.platform.log.warn('Failed to read state from device, returning cached state');
-        this.platform.log.debug('Get Characteristic On -> (cached)', this.states.On);
-        return this.states.On;
+        this.platform.log.debug(`Get Characteristic On -> (cached${this.stale ? ', stale' : ''})`, this.states.On);
+        return this.getCachedValue(this.states.On);
       }
     } catch (error) {
+      if (error instanceof this.platform.api.hap.HapStatusError) {
+        throw error;
+      }
       // Fall back to cached state on any error
+      this.markFailing();
       this.platform.log.error(`Error in getOn: ${error instanceof Error ? error.message : 'Unknown error'}`);
       this.platform.log.debug('Get Characteristic On -> (cached due to error)', this.states.On);
-      return this.states.On;
+      return this.getCachedValue(this.states.On);
     }
-
-    // if you need to return an error to show the device as "Not Responding" in the Home app:
-    // throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
   }
 
   /**
@@ -276,11 +391,63 @@ export class SchneiderBLELampsAccessory {
    * These are sent when the user changes the state of an accessory, for example, changing the Brightness
    */
   async setBrightness(value: CharacteristicValue) {
-    // Note: The Python script doesn't include brightness control functionality
-    // This is a placeholder implementation that just stores the value
-    this.states.Brightness = value as number;
+    this.assertReachable();
+
+    const brightness = value as number;
+
+    try {
+      if (!this.bleController.getIsConnected()) {
+        this.platform.log.debug('Not connected to device, attempting connection...');
+        await this.connectToDevice();
+      }
+
+      const success = await this.bleController.setBrightness(brightness);
+      if (!success) {
+        throw new Error(`Failed to set brightness to ${brightness}%`);
+      }
+
+      this.recordState({ Brightness: brightness }, 'write');
+      this.markAvailable();
+      this.platform.log.debug(`Set Characteristic Brightness -> ${brightness} (successful)`);
+    } catch (error) {
+      this.markFailing();
+      this.platform.log.error(`Error in setBrightness: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // HomeKit reverts the brightness and shows the lamp as "Not Responding"
+      throw this.communicationFailure();
+    }
+  }
 
-    this.platform.log.debug('Set Characteristic Brightness -> ', value);
-    this.platform.log.warn('Brightness control is not implemented for this device');
+  /**
+   * Handle the "GET" requests from HomeKit for the Brightness
+   */
+  async getBrightness(): Promise<CharacteristicValue> {
+    this.assertReachable();
+
+    try {
+      if (!this.bleController.getIsConnected()) {
+        this.platform.log.debug('Not connected to device, attempting connection for brightness read...');
+        await this.connectToDevice();
+      }
+
+      const brightness = await this.bleController.readBrightness();
+      if (brightness !== null) {
+        this.recordState({ Brightness: brightness }, 'read');
+        this.markAvailable();
+        this.platform.log.debug('Get Characteristic Brightness -> (from device)', brightness);
+        return brightness;
+      }
+
+      this.markFailing();
+      this.platform.log.warn('Failed to read brightness from device, returning cached brightness');
+      return this.getCachedValue(this.states.Brightness);
+    } catch (error) {
+      if (error instanceof this.platform.api.hap.HapStatusError) {
+        throw error;
+      }
+      this.markFailing();
+      this.platform.log.error(`Error in getBrightness: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      this.platform.log.debug('Get Characteristic Brightness -> (cached due to error)', this.states.Brightness);
+      return this.getCachedValue(this.states.Brightness);
+    }
   }
-}
\ No newline at end of file
+}
@@ -7,3 +7,42 @@ export const PLATFORM_NAME = 'SchneiderBLELamps';
  * This must match the name of your plugin as defined the package.json `name` property
  */
 export const PLUGIN_NAME = 'homebridge-schneider-ble-lamps';
+
+/**
+ * UUID of the GATT service advertised by Schneider BLE lamps
+ */
+export const LAMP_SERVICE_UUID = 'b35d95c06a68437eabe70ebffd8e0661';
+
+/**
+ * UUID of the lamp control characteristic (0x00 = OFF, 0x01 = ON)
+ */
+export const LAMP_CONTROL_CHARACTERISTIC_UUID = 'b35d95c66a68437eabe70ebffd8e0661';
+
+/**
+ * UUID of the level characteristic of dimmer models (0x00-0xFF), absent on on/off-only lamps
+ * Unverified: assumed from the numbering of the control characteristic, not confirmed on a real dimmer.
+ * Devices can override it with the `characteristics.brightness` device option.
+ */
+export const LAMP_LEVEL_CHARACTERISTIC_UUID = 'b35d95c76a68437eabe70ebffd8e0661';
+
+/**
+ * UUID of the GATT service advertised by Schneider BLE shutter actuators
+ * Unverified: the shutter UUIDs below are assumed from the numbering of the lamp UUIDs, not confirmed on a real shutter.
+ * Configured shutters select their model with the `profile` device option and override the characteristics with `characteristics`.
+ */
+export const SHUTTER_SERVICE_UUID = 'b35d95d06a68437eabe70ebffd8e0661';
+
+/**
+ * UUID of the shutter position characteristic (0-100 % open), notified while the shutter moves
+ */
+export const SHUTTER_POSITION_CHARACTERISTIC_UUID = 'b35d95d16a68437eabe70ebffd8e0661';
+
+/**
+ * UUID of the shutter target position characteristic (0-100 % open), the shutter moves when it is written
+ */
+export const SHUTTER_TARGET_CHARACTERISTIC_UUID = 'b35d95d26a68437eabe70ebffd8e0661';
+
+/**
+ * UUID of the shutter command characteristic (0x00 = STOP, 0x01 = OPEN, 0x02 = CLOSE), the command values are unverified too
+ */
+export const SHUTTER_COMMAND_CHARACTERISTIC_UUID = 'b35d95d36a68437eabe70ebffd8e0661';
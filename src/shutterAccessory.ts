@@ -0,0 +1,383 @@
+import type { CharacteristicValue, PlatformAccessory, Service } from 'homebridge';
+
+import { DeviceAccessory } from './deviceAccessory.js';
+import type { DeviceProfile } from './deviceProfiles.js';
+import type { SchneiderBLELampsPlatform } from './platform.js';
+
+/**
+ * Last known shutter position stored in `accessory.context.state`
+ */
+export interface PersistedShutterState {
+  position: number;
+  // Epoch milliseconds of the last read or notification from the device, null if never confirmed
+  lastReadAt: number | null;
+}
+
+/**
+ * Shutter Accessory
+ * An instance of this class is created for each shutter actuator your platform registers.
+ * Positions are in percent open, 0 is closed and 100 is open.
+ */
+export class SchneiderBLEShutterAccessory extends DeviceAccessory {
+  // Default time the shutter takes from closed to open, used to estimate the position while moving
+  private static readonly DEFAULT_TRAVEL_TIME = 30;
+  // Interval of the position estimates while the shutter moves
+  private static readonly ESTIMATE_INTERVAL_MS = 1000;
+  // Time without position notifications after which a movement counts as finished
+  private static readonly SETTLE_DELAY_MS = 5000;
+
+  private service!: Service;
+  private currentPosition = 0;
+  private targetPosition = 0;
+  // position and time the current movement started at, null while the shutter stands still
+  private movement: { from: number; startedAt: number } | null = null;
+  private estimateTimer: NodeJS.Timeout | null = null;
+  private stopTimer: NodeJS.Timeout | null = null;
+  private settleTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    platform: SchneiderBLELampsPlatform,
+    accessory: PlatformAccessory,
+    profile: DeviceProfile,
+  ) {
+    super(platform, accessory, profile);
+
+    if (!this.accessory.context.device) {
+      return;
+    }
+
+    this.service = this.accessory.getService(this.platform.Service.WindowCovering)
+      || this.accessory.addService(this.platform.Service.WindowCovering);
+    this.service.setCharacteristic(this.platform.Characteristic.Name, this.accessory.context.device.displayName);
+
+    // see https://developers.homebridge.io/#/service/WindowCovering
+    this.service.getCharacteristic(this.platform.Characteristic.CurrentPosition)
+      .onGet(this.getCurrentPosition.bind(this));
+    this.service.getCharacteristic(this.platform.Characteristic.TargetPosition)
+      .onSet(this.setTargetPosition.bind(this))
+      .onGet(() => this.targetPosition);
+    this.service.getCharacteristic(this.platform.Characteristic.PositionState)
+      .onGet(() => this.getPositionState());
+    this.service.getCharacteristic(this.platform.Characteristic.HoldPosition)
+      .onSet(this.setHoldPosition.bind(this));
+    this.exposeDiagnostics(this.service);
+
+    // show the position from before the restart right away
+    const saved = this.accessory.context.state as PersistedShutterState | undefined;
+    if (saved) {
+      this.currentPosition = saved.position;
+      this.targetPosition = saved.position;
+      this.updatePositionCharacteristics();
+    }
+
+    // shutters reporting their position while moving replace the timed estimates
+    this.bleController?.on('stateChanged', (change) => {
+      if (change.kind !== 'position') {
+        return;
+      }
+      const { position } = change;
+      this.platform.log.debug(`Shutter position changed on device -> ${position}%`);
+      this.recordPosition(position, true);
+      if (!this.movement) {
+        // moved by the wall switch
+        this.targetPosition = position;
+        this.updatePositionCharacteristics();
+      } else if (position === this.targetPosition) {
+        this.finishMovement();
+      } else {
+        if (this.estimateTimer) {
+          clearInterval(this.estimateTimer);
+          this.estimateTimer = null;
+        }
+        // the device may stop short of the target or stop reporting, the last position then ends the movement
+        this.restartSettleTimer();
+      }
+    });
+  }
+
+  /**
+   * Time the shutter takes from closed to open in seconds
+   */
+  private get travelTime(): number {
+    return (this.accessory.context.device.travelTime as number) ?? SchneiderBLEShutterAccessory.DEFAULT_TRAVEL_TIME;
+  }
+
+  /**
+   * Read the position once connected, the shutter may have been moved by its wall switch
+   */
+  protected override onConnected(): void {
+    this.bleController.readPosition().then((position) => {
+      if (position !== null && !this.movement) {
+        this.recordPosition(position, true);
+        this.targetPosition = position;
+        this.updatePositionCharacteristics();
+      }
+    }).catch((error) => {
+      this.platform.log.debug(`Failed to read shutter position: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }
+
+  /**
+   * Update the known position and save it in the accessory context
+   * @param position - The position in percent open
+   * @param confirmed - Whether the position was reported by the device instead of estimated
+   */
+  private recordPosition(position: number, confirmed: boolean): void {
+    this.currentPosition = Math.round(Math.min(100, Math.max(0, position)));
+    this.service.updateCharacteristic(this.platform.Characteristic.CurrentPosition, this.currentPosition);
+
+    // estimates are only saved once the movement has finished
+    if (confirmed || !this.movement) {
+      const previous = this.accessory.context.state as PersistedShutterState | undefined;
+      const state: PersistedShutterState = {
+        position: this.currentPosition,
+        lastReadAt: confirmed ? Date.now() : previous?.lastReadAt ?? null,
+      };
+      this.accessory.context.state = state;
+      if (previous?.position !== state.position) {
+        this.platform.api.updatePlatformAccessories([this.accessory]);
+      }
+    }
+  }
+
+  /**
+   * HomeKit position state derived from the current and target position
+   */
+  private getPositionState(): number {
+    const { PositionState } = this.platform.Characteristic;
+    if (!this.movement || this.targetPosition === this.currentPosition) {
+      return PositionState.STOPPED;
+    }
+    return this.targetPosition > this.currentPosition ? PositionState.INCREASING : PositionState.DECREASING;
+  }
+
+  private updatePositionCharacteristics(): void {
+    this.service.updateCharacteristic(this.platform.Characteristic.CurrentPosition, this.currentPosition);
+    this.service.updateCharacteristic(this.platform.Characteristic.TargetPosition, this.targetPosition);
+    this.service.updateCharacteristic(this.platform.Characteristic.PositionState, this.getPositionState());
+  }
+
+  /**
+   * Start tracking a movement towards the target position
+   * Without position notifications the position is estimated from the travel time.
+   */
+  private startMovement(): void {
+    this.clearTimers();
+    this.movement = { from: this.currentPosition, startedAt: Date.now() };
+    this.updatePositionCharacteristics();
+
+    this.estimateTimer = setInterval(() => {
+      if (!this.movement) {
+        return;
+      }
+      const travelled = ((Date.now() - this.movement.startedAt) / (this.travelTime * 1000)) * 100;
+      const direction = Math.sign(this.targetPosition - this.movement.from);
+      const estimate = this.movement.from + direction * travelled;
+      if (direction === 0 || (direction > 0 ? estimate >= this.targetPosition : estimate <= this.targetPosition)) {
+        this.finishMovement();
+      } else {
+        this.recordPosition(estimate, false);
+      }
+    }, SchneiderBLEShutterAccessory.ESTIMATE_INTERVAL_MS);
+  }
+
+  /**
+   * End the movement at the last reported position once no further notifications arrive
+   */
+  private restartSettleTimer(): void {
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+    }
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = null;
+      this.finishMovement(this.currentPosition);
+    }, SchneiderBLEShutterAccessory.SETTLE_DELAY_MS);
+  }
+
+  /**
+   * End the tracked movement, a pending stop command is still sent
+   * @param position - The position the shutter stopped at, the target position by default
+   */
+  private finishMovement(position = this.targetPosition): void {
+    if (!this.movement) {
+      return;
+    }
+    if (this.estimateTimer) {
+      clearInterval(this.estimateTimer);
+      this.estimateTimer = null;
+    }
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+    this.movement = null;
+    this.targetPosition = position;
+    this.recordPosition(position, false);
+    this.updatePositionCharacteristics();
+  }
+
+  /**
+   * Stop a shutter moved by an open or close command once it has travelled to the target position
+   * A failed stop leaves the position unknown, so the movement is no longer reported.
+   */
+  private async stopAtTarget(): Promise<void> {
+    try {
+      if (!await this.bleController.sendShutterCommand('stop')) {
+        throw new Error('Failed to stop shutter');
+      }
+      // the estimate is replaced by the actual position where the device reports it
+      const position = this.bleController.hasBinding('position') ? await this.bleController.readPosition() : null;
+      if (position !== null) {
+        this.recordPosition(position, true);
+      }
+      this.finishMovement(position ?? this.targetPosition);
+    } catch (error) {
+      this.markFailing();
+      this.clearTimers();
+      this.movement = null;
+      this.targetPosition = this.currentPosition;
+      this.updatePositionCharacteristics();
+      this.platform.log.error(`Failed to stop shutter: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.estimateTimer) {
+      clearInterval(this.estimateTimer);
+      this.estimateTimer = null;
+    }
+    if (this.stopTimer) {
+      clearTimeout(this.stopTimer);
+      this.stopTimer = null;
+    }
+    if (this.settleTimer) {
+      clearTimeout(this.settleTimer);
+      this.settleTimer = null;
+    }
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit for the TargetPosition
+   * Shutters with a target position characteristic move there by themselves, others are
+   * opened or closed and stopped once the estimated travel time to the position has passed.
+   */
+  async setTargetPosition(value: CharacteristicValue) {
+    this.assertReachable();
+
+    const target = value as number;
+
+    try {
+      await this.ensureConnected();
+
+      let success: boolean;
+      let stopAfter: number | null = null;
+      if (this.bleController.hasBinding('targetPosition')) {
+        success = await this.bleController.setTargetPosition(target);
+      } else if (target === this.currentPosition && !this.movement) {
+        success = true;
+      } else {
+        success = await this.bleController.sendShutterCommand(target > this.currentPosition ? 'open' : 'close');
+        // fully open and closed are end positions, the shutter stops there by itself
+        if (target > 0 && target < 100) {
+          stopAfter = (Math.abs(target - this.currentPosition) / 100) * this.travelTime * 1000;
+        }
+      }
+
+      if (!success) {
+        throw new Error(`Failed to move shutter to ${target}%`);
+      }
+
+      this.markAvailable();
+      this.targetPosition = target;
+      this.startMovement();
+      if (stopAfter !== null) {
+        this.stopTimer = setTimeout(() => {
+          this.stopTimer = null;
+          this.stopAtTarget();
+        }, stopAfter);
+      }
+      this.platform.log.debug(`Set Characteristic TargetPosition -> ${target} (successful)`);
+    } catch (error) {
+      if (error instanceof this.platform.api.hap.HapStatusError) {
+        throw error;
+      }
+      this.markFailing();
+      this.platform.log.error(`Error in setTargetPosition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      // HomeKit reverts the target position and shows the shutter as "Not Responding"
+      throw this.communicationFailure();
+    }
+  }
+
+  /**
+   * Handle "SET" requests from HomeKit for the HoldPosition, stopping the shutter where it is
+   */
+  async setHoldPosition(value: CharacteristicValue) {
+    if (!value) {
+      return;
+    }
+    this.assertReachable();
+
+    try {
+      await this.ensureConnected();
+
+      if (!await this.bleController.sendShutterCommand('stop')) {
+        throw new Error('Failed to stop shutter');
+      }
+
+      this.markAvailable();
+      this.clearTimers();
+      this.movement = null;
+      // the estimate is replaced by the actual position where the device reports it
+      const position = this.bleController.hasBinding('position') ? await this.bleController.readPosition() : null;
+      this.recordPosition(position ?? this.currentPosition, position !== null);
+      this.targetPosition = this.currentPosition;
+      this.updatePositionCharacteristics();
+      this.platform.log.debug(`Set Characteristic HoldPosition -> stopped at ${this.currentPosition}%`);
+    } catch (error) {
+      if (error instanceof this.platform.api.hap.HapStatusError) {
+        throw error;
+      }
+      this.markFailing();
+      this.platform.log.error(`Error in setHoldPosition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.communicationFailure();
+    }
+  }
+
+  /**
+   * Handle the "GET" requests from HomeKit for the CurrentPosition
+   * While the shutter moves the tracked position is returned without a read.
+   */
+  async getCurrentPosition(): Promise<CharacteristicValue> {
+    this.assertReachable();
+
+    if (this.movement) {
+      return this.currentPosition;
+    }
+
+    try {
+      await this.ensureConnected();
+      if (!this.bleController.hasBinding('position')) {
+        return this.currentPosition;
+      }
+
+      const position = await this.bleController.readPosition();
+      if (position !== null) {
+        this.recordPosition(position, true);
+        this.markAvailable();
+        this.platform.log.debug('Get Characteristic CurrentPosition -> (from device)', position);
+        return position;
+      }
+
+      this.markFailing();
+      this.platform.log.warn('Failed to read position from device, returning cached position');
+      return this.getCachedValue(this.currentPosition);
+    } catch (error) {
+      if (error instanceof this.platform.api.hap.HapStatusError) {
+        throw error;
+      }
+      this.markFailing();
+      this.platform.log.error(`Error in getCurrentPosition: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return this.getCachedValue(this.currentPosition);
+    }
+  }
+}
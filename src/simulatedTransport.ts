@@ -0,0 +1,729 @@
+import { EventEmitter } from 'node:events';
+import type { Logging } from 'homebridge';
+
+import type { BLETransport } from './bleTransport.js';
+import { BLEController } from './bleController.js';
+import { POSITION_CODEC, SHUTTER_COMMAND_CODEC } from './characteristicBindings.js';
+import type { GattProfile } from './gattProfile.js';
+import {
+  LAMP_CONTROL_CHARACTERISTIC_UUID,
+  LAMP_LEVEL_CHARACTERISTIC_UUID,
+  LAMP_SERVICE_UUID,
+  SHUTTER_COMMAND_CHARACTERISTIC_UUID,
+  SHUTTER_POSITION_CHARACTERISTIC_UUID,
+  SHUTTER_SERVICE_UUID,
+  SHUTTER_TARGET_CHARACTERISTIC_UUID,
+} from './settings.js';
+
+type ErrorCallback = (error: Error | null) => void;
+type DataCallback = (error: Error | null, data: Buffer) => void;
+
+/**
+ * Configuration of a simulated lamp
+ */
+export interface SimulatedLampConfig {
+  address: string;
+  name?: string;
+  on?: boolean;
+  // Dimmer models expose the level characteristic
+  dimmable?: boolean;
+  brightness?: number;
+  // Multi-channel models switch several loads through the control characteristic, writing the channel index before the state
+  channels?: number;
+  rssi?: number;
+}
+
+/**
+ * Configuration of a simulated shutter actuator
+ */
+export interface SimulatedShutterConfig {
+  address: string;
+  name?: string;
+  // Position in percent open
+  position?: number;
+  // Seconds from closed to open
+  travelTime?: number;
+  // Models without target position characteristic are only moved by open, close and stop commands
+  targetPosition?: boolean;
+  rssi?: number;
+}
+
+/**
+ * Configuration of the simulated backend
+ */
+export interface SimulationConfig {
+  lamps?: SimulatedLampConfig[];
+  shutters?: SimulatedShutterConfig[];
+  // Exported GATT profiles replayed as additional peripherals
+  profiles?: GattProfile[];
+  // Delay in milliseconds applied to every simulated BLE operation
+  latency?: number;
+}
+
+/**
+ * Faults and delays shared by all simulated peripherals of a transport
+ */
+export interface SimulationConditions {
+  latency: number;
+}
+
+/**
+ * Simulated GATT descriptor holding its value in memory
+ */
+export class SimulatedDescriptor {
+  constructor(
+    private readonly peripheral: SimulatedPeripheral,
+    public readonly uuid: string,
+    public value: Buffer = Buffer.alloc(0),
+  ) {}
+
+  public readValue(callback?: DataCallback): void {
+    this.peripheral.runOperation('readDescriptor', callback, () => Buffer.from(this.value));
+  }
+
+  public writeValue(data: Buffer, callback?: ErrorCallback): void {
+    this.peripheral.runOperation('writeDescriptor', callback, () => {
+      this.value = Buffer.from(data);
+    });
+  }
+}
+
+/**
+ * Simulated GATT characteristic holding its value in memory
+ */
+export class SimulatedCharacteristic extends EventEmitter {
+  public value: Buffer;
+  public readonly descriptors: SimulatedDescriptor[] = [];
+  private subscribed = false;
+
+  constructor(
+    private readonly peripheral: SimulatedPeripheral,
+    public readonly uuid: string,
+    public readonly properties: string[],
+    public readonly handle: number,
+    value: Buffer = Buffer.alloc(0),
+  ) {
+    super();
+    this.value = value;
+  }
+
+  public read(callback?: DataCallback): void {
+    this.peripheral.runOperation('read', callback, () => Buffer.from(this.value));
+  }
+
+  public write(data: Buffer, withoutResponse: boolean, callback?: ErrorCallback): void {
+    this.peripheral.runOperation('write', callback, () => {
+      this.value = Buffer.from(data);
+      this.emit('write', this.value);
+    });
+  }
+
+  public discoverDescriptors(callback: (error: Error | null, descriptors: SimulatedDescriptor[]) => void): void {
+    this.peripheral.runOperation('discoverDescriptors', callback, () => [...this.descriptors]);
+  }
+
+  /**
+   * Add a descriptor to the characteristic
+   */
+  public addDescriptor(uuid: string, value?: Buffer): SimulatedDescriptor {
+    const descriptor = new SimulatedDescriptor(this.peripheral, uuid, value);
+    this.descriptors.push(descriptor);
+    return descriptor;
+  }
+
+  public subscribe(callback?: ErrorCallback): void {
+    this.peripheral.runOperation('subscribe', callback, () => {
+      this.subscribed = true;
+      this.emit('notify', true);
+    });
+  }
+
+  public unsubscribe(callback?: ErrorCallback): void {
+    this.peripheral.runOperation('unsubscribe', callback, () => {
+      this.subscribed = false;
+      this.emit('notify', false);
+    });
+  }
+
+  /**
+   * Forget the subscription, the GATT server drops it when the link is lost
+   * @internal used by the simulated peripheral
+   */
+  public clearSubscription(): void {
+    this.subscribed = false;
+  }
+
+  /**
+   * Change the value from the device side and notify subscribers
+   */
+  public notifyValue(value: Buffer): void {
+    this.value = Buffer.from(value);
+    if (this.subscribed && this.peripheral.state === 'connected') {
+      this.emit('data', Buffer.from(this.value), true);
+    }
+  }
+}
+
+/**
+ * Simulated GATT service
+ */
+export class SimulatedService {
+  public readonly characteristics: SimulatedCharacteristic[] = [];
+
+  constructor(
+    private readonly peripheral: SimulatedPeripheral,
+    public readonly uuid: string,
+    public readonly name?: string,
+  ) {}
+
+  public discoverCharacteristics(
+    characteristicUuids: string[],
+    callback: (error: Error | null, characteristics: SimulatedCharacteristic[]) => void,
+  ): void {
+    this.peripheral.runOperation('discoverCharacteristics', callback, () =>
+      this.characteristics.filter((char) =>
+        !characteristicUuids?.length || characteristicUuids.includes(char.uuid)),
+    );
+  }
+}
+
+/**
+ * Simulated peripheral following the shape of a noble peripheral
+ */
+export class SimulatedPeripheral extends EventEmitter {
+  public readonly id: string;
+  public readonly addressType = 'public';
+  public readonly connectable = true;
+  public readonly advertisement: { localName?: string; serviceUuids: string[]; manufacturerData?: Buffer };
+  public state: 'disconnected' | 'connecting' | 'connected' = 'disconnected';
+  public readonly services: SimulatedService[] = [];
+  private nextHandle = 1;
+  private pendingWriteErrors = 0;
+  private pendingUnansweredOperations = 0;
+
+  constructor(
+    protected readonly log: Logging,
+    private readonly conditions: SimulationConditions,
+    public readonly address: string,
+    localName: string | undefined,
+    public rssi: number,
+  ) {
+    super();
+    this.id = address.replace(/:/g, '').toLowerCase();
+    this.advertisement = { localName, serviceUuids: [] };
+  }
+
+  /**
+   * Add a service to the peripheral's GATT table
+   */
+  public addService(uuid: string, name?: string): SimulatedService {
+    const service = new SimulatedService(this, uuid, name);
+    this.services.push(service);
+    this.advertisement.serviceUuids.push(uuid);
+    return service;
+  }
+
+  /**
+   * Add a characteristic to one of the peripheral's services
+   * @param handle - Optional value handle, by default the next free handle is assigned
+   */
+  public addCharacteristic(
+    service: SimulatedService,
+    uuid: string,
+    properties: string[],
+    value?: Buffer,
+    handle?: number,
+  ): SimulatedCharacteristic {
+    // Handles leave room for the declaration attribute like on a real GATT server
+    this.nextHandle = handle ?? this.nextHandle + 2;
+    const char = new SimulatedCharacteristic(this, uuid, properties, this.nextHandle, value);
+    service.characteristics.push(char);
+    return char;
+  }
+
+  public connect(callback?: ErrorCallback): void {
+    // Like noble, the callback is bound to the next 'connect' event
+    if (callback) {
+      this.once('connect', callback);
+    }
+    if (this.state === 'connected') {
+      this.emit('connect', new Error('Peripheral already connected'));
+      return;
+    }
+    this.state = 'connecting';
+    if (this.consumeUnansweredOperation('connect')) {
+      return;
+    }
+    setTimeout(() => {
+      if (this.state !== 'connecting') {
+        // cancelled by disconnect
+        return;
+      }
+      this.state = 'connected';
+      this.log.debug(`[Simulation] ${this.address} connected`);
+      this.emit('connect', null);
+    }, this.conditions.latency);
+  }
+
+  public disconnect(callback?: () => void): void {
+    if (this.state === 'disconnected') {
+      callback?.();
+      return;
+    }
+    setTimeout(() => {
+      // local host terminated the connection
+      this.dropConnection(0x16);
+      callback?.();
+    }, this.conditions.latency);
+  }
+
+  public updateRssi(callback?: (error: Error | null, rssi: number) => void): void {
+    this.runOperation('updateRssi', callback, () => this.rssi);
+  }
+
+  public discoverServices(
+    serviceUuids: string[],
+    callback: (error: Error | null, services: SimulatedService[]) => void,
+  ): void {
+    this.runOperation('discoverServices', callback, () =>
+      this.services.filter((service) => !serviceUuids?.length || serviceUuids.includes(service.uuid)),
+    );
+  }
+
+  /**
+   * Drop the connection as if the peripheral went out of range
+   */
+  public injectDisconnect(): void {
+    if (this.state !== 'disconnected') {
+      this.log.info(`[Simulation] Injecting disconnect on ${this.address}`);
+      // supervision timeout, as reported for devices out of range
+      this.dropConnection(0x08);
+    }
+  }
+
+  /**
+   * Fail the next write operations
+   * @param count - Number of writes that will fail
+   */
+  public injectWriteErrors(count = 1): void {
+    this.log.info(`[Simulation] Injecting ${count} write error(s) on ${this.address}`);
+    this.pendingWriteErrors += count;
+  }
+
+  /**
+   * Leave the next operations unanswered, as a lamp that stops responding halfway
+   * @param count - Number of operations (connect, discovery, read, write) that never complete
+   */
+  public injectUnansweredOperations(count = 1): void {
+    this.log.info(`[Simulation] Leaving ${count} operation(s) on ${this.address} unanswered`);
+    this.pendingUnansweredOperations += count;
+  }
+
+  /**
+   * Run a GATT operation after the simulated latency
+   * @internal used by the simulated services and characteristics
+   */
+  public runOperation<T>(
+    operation: string,
+    callback: ((error: Error | null, result: T) => void) | undefined,
+    execute: () => T,
+  ): void {
+    if (this.consumeUnansweredOperation(operation)) {
+      return;
+    }
+    setTimeout(() => {
+      if (this.state !== 'connected') {
+        callback?.(new Error(`Simulated ${operation} failed: peripheral ${this.address} is not connected`), undefined as T);
+        return;
+      }
+      if (operation === 'write' && this.pendingWriteErrors > 0) {
+        this.pendingWriteErrors--;
+        callback?.(new Error(`Simulated write error on ${this.address}`), undefined as T);
+        return;
+      }
+      callback?.(null, execute());
+    }, this.conditions.latency);
+  }
+
+  private consumeUnansweredOperation(operation: string): boolean {
+    if (this.pendingUnansweredOperations === 0) {
+      return false;
+    }
+    this.pendingUnansweredOperations--;
+    this.log.debug(`[Simulation] ${this.address} does not answer ${operation}`);
+    return true;
+  }
+
+  /**
+   * End the connection with an HCI reason, like noble passes with the disconnect event
+   */
+  private dropConnection(reason: number): void {
+    this.state = 'disconnected';
+    for (const service of this.services) {
+      service.characteristics.forEach((char) => char.clearSubscription());
+    }
+    this.log.debug(`[Simulation] ${this.address} disconnected`);
+    this.emit('disconnect', reason);
+  }
+}
+
+/**
+ * Simulated Schneider BLE lamp exposing the real lamp service and control characteristic
+ */
+export class SimulatedLamp extends SimulatedPeripheral {
+  public readonly controlCharacteristic: SimulatedCharacteristic;
+  public readonly levelCharacteristic: SimulatedCharacteristic | null = null;
+  // State byte of every channel, the value of the control characteristic
+  private readonly channelStates: Buffer;
+
+  constructor(log: Logging, conditions: SimulationConditions, config: SimulatedLampConfig) {
+    super(log, conditions, config.address, config.name ?? `Schneider Lamp ${config.address.slice(-5)}`, config.rssi ?? -60);
+
+    const service = this.addService(LAMP_SERVICE_UUID);
+    const channels = Math.max(1, config.channels ?? 1);
+    this.controlCharacteristic = this.addCharacteristic(
+      service,
+      LAMP_CONTROL_CHARACTERISTIC_UUID,
+      ['read', 'write', 'writeWithoutResponse', 'notify'],
+      Buffer.alloc(channels, config.on ? 0x01 : 0x00),
+    );
+    if (channels > 1) {
+      // the written channel index and state update the state byte of that channel
+      this.controlCharacteristic.on('write', (value: Buffer) => {
+        if (value.length >= 2 && value[0] < channels) {
+          this.channelStates[value[0]] = value[1];
+          log.info(`[Simulation] ${this.address} turned channel ${value[0] + 1} ${value[1] === 0x01 ? 'ON' : 'OFF'}`);
+        }
+        this.controlCharacteristic.value = Buffer.from(this.channelStates);
+      });
+    } else {
+      this.controlCharacteristic.on('write', (value: Buffer) => {
+        log.info(`[Simulation] ${this.address} turned ${value[0] === 0x01 ? 'ON' : 'OFF'}`);
+      });
+    }
+    this.channelStates = Buffer.from(this.controlCharacteristic.value);
+
+    if (config.dimmable) {
+      this.levelCharacteristic = this.addCharacteristic(
+        service,
+        LAMP_LEVEL_CHARACTERISTIC_UUID,
+        ['read', 'write'],
+        BLEController.encodeBrightness(config.brightness ?? 100),
+      );
+      this.levelCharacteristic.on('write', (value: Buffer) => {
+        log.info(`[Simulation] ${this.address} dimmed to ${BLEController.decodeBrightness(value)}%`);
+      });
+    }
+  }
+
+  /**
+   * Switch the lamp from the device side, as the wall switch would
+   */
+  public setPhysicalState(on: boolean, channel = 0): void {
+    this.log.info(`[Simulation] ${this.address} switched ${this.channelStates.length > 1 ? `channel ${channel + 1} ` : ''}${on ? 'ON' : 'OFF'} on the device`);
+    this.channelStates[channel] = on ? 0x01 : 0x00;
+    this.controlCharacteristic.notifyValue(this.channelStates);
+  }
+
+  /**
+   * Current on/off state of the lamp
+   */
+  public get isOn(): boolean {
+    return this.controlCharacteristic.value[0] === 0x01;
+  }
+
+  /**
+   * Current brightness in percent, null for on/off-only lamps
+   */
+  public get brightness(): number | null {
+    return this.levelCharacteristic ? BLEController.decodeBrightness(this.levelCharacteristic.value) : null;
+  }
+}
+
+/**
+ * Simulated Schneider BLE shutter actuator, moving at a constant speed and notifying its position
+ */
+export class SimulatedShutter extends SimulatedPeripheral {
+  public readonly positionCharacteristic: SimulatedCharacteristic;
+  public readonly targetCharacteristic: SimulatedCharacteristic | null = null;
+  public readonly commandCharacteristic: SimulatedCharacteristic;
+  private readonly travelTime: number;
+  private movementTimer: NodeJS.Timeout | null = null;
+
+  constructor(log: Logging, conditions: SimulationConditions, config: SimulatedShutterConfig) {
+    super(log, conditions, config.address, config.name ?? `Schneider Shutter ${config.address.slice(-5)}`, config.rssi ?? -60);
+    this.travelTime = config.travelTime ?? 10;
+
+    const service = this.addService(SHUTTER_SERVICE_UUID);
+    this.positionCharacteristic = this.addCharacteristic(
+      service,
+      SHUTTER_POSITION_CHARACTERISTIC_UUID,
+      ['read', 'notify'],
+      POSITION_CODEC.encode(config.position ?? 0),
+    );
+
+    if (config.targetPosition ?? true) {
+      this.targetCharacteristic = this.addCharacteristic(
+        service,
+        SHUTTER_TARGET_CHARACTERISTIC_UUID,
+        ['read', 'write'],
+        POSITION_CODEC.encode(config.position ?? 0),
+      );
+      this.targetCharacteristic.on('write', (value: Buffer) => {
+        const target = POSITION_CODEC.decode(value);
+        if (target !== null) {
+          log.info(`[Simulation] ${this.address} moving to ${target}%`);
+          this.moveTo(target);
+        }
+      });
+    }
+
+    this.commandCharacteristic = this.addCharacteristic(
+      service,
+      SHUTTER_COMMAND_CHARACTERISTIC_UUID,
+      ['write'],
+      SHUTTER_COMMAND_CODEC.encode('stop'),
+    );
+    this.commandCharacteristic.on('write', (value: Buffer) => {
+      const command = SHUTTER_COMMAND_CODEC.decode(value);
+      log.info(`[Simulation] ${this.address} received ${command?.toUpperCase()} command`);
+      if (command === 'open') {
+        this.moveTo(100);
+      } else if (command === 'close') {
+        this.moveTo(0);
+      } else {
+        this.stop();
+      }
+    });
+  }
+
+  /**
+   * Move the shutter from the device side, as the wall switch would
+   */
+  public moveTo(target: number): void {
+    this.stop();
+    const step = Math.sign(target - this.position);
+    if (step === 0) {
+      return;
+    }
+    this.movementTimer = setInterval(() => {
+      const position = this.position + step;
+      this.positionCharacteristic.notifyValue(POSITION_CODEC.encode(position));
+      if (position === target) {
+        this.stop();
+        this.log.info(`[Simulation] ${this.address} stopped at ${position}%`);
+      }
+    }, (this.travelTime * 1000) / 100);
+  }
+
+  /**
+   * Stop a movement in progress
+   */
+  public stop(): void {
+    if (this.movementTimer) {
+      clearInterval(this.movementTimer);
+      this.movementTimer = null;
+    }
+  }
+
+  /**
+   * Current position in percent open
+   */
+  public get position(): number {
+    return POSITION_CODEC.decode(this.positionCharacteristic.value) ?? 0;
+  }
+}
+
+/**
+ * Simulated BLE Transport
+ * Fully in-memory backend advertising fake lamps, used to run the plugin without
+ * Bluetooth hardware. Faults can be injected on demand to exercise the connection logic.
+ */
+export class SimulatedTransport extends EventEmitter implements BLETransport {
+  public state = 'unknown';
+  public scanning = false;
+  private readonly peripherals = new Map<string, SimulatedPeripheral>();
+  private readonly conditions: SimulationConditions;
+  private advertisementTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly log: Logging,
+    config: SimulationConfig = {},
+  ) {
+    super();
+    this.conditions = { latency: Math.max(0, config.latency ?? 50) };
+
+    const lamps = config.lamps?.length || config.shutters?.length || config.profiles?.length ? config.lamps ?? [] : [
+      { address: 'aa:bb:cc:00:00:01', name: 'Schneider Simulated Lamp 1' },
+      { address: 'aa:bb:cc:00:00:02', name: 'Schneider Simulated Lamp 2' },
+    ];
+    for (const lamp of lamps) {
+      this.addLamp(lamp);
+    }
+    for (const shutter of config.shutters ?? []) {
+      this.addShutter(shutter);
+    }
+    for (const profile of config.profiles ?? []) {
+      this.addProfile(profile);
+    }
+  }
+
+  public async open(): Promise<void> {
+    if (this.state !== 'poweredOn') {
+      this.log.info(`[Simulation] Simulated BLE adapter with ${this.peripherals.size} peripheral(s)`);
+      this.state = 'poweredOn';
+      this.emit('stateChange', this.state);
+    }
+  }
+
+  public startScanning(serviceUuids: string[] = [], allowDuplicates = false): void {
+    this.stopAdvertising();
+    this.scanning = true;
+    this.emit('scanStart');
+
+    const advertised = new Set<string>();
+    const advertise = () => {
+      for (const peripheral of this.peripherals.values()) {
+        if (peripheral.state !== 'disconnected') {
+          continue;
+        }
+        if (serviceUuids.length && !peripheral.advertisement.serviceUuids.some((uuid) => serviceUuids.includes(uuid))) {
+          continue;
+        }
+        if (!allowDuplicates && advertised.has(peripheral.address)) {
+          continue;
+        }
+        advertised.add(peripheral.address);
+        this.emit('discover', peripheral);
+      }
+    };
+
+    setTimeout(advertise, this.conditions.latency);
+    this.advertisementTimer = setInterval(advertise, 1000);
+  }
+
+  public stopScanning(): void {
+    this.stopAdvertising();
+    if (this.scanning) {
+      this.scanning = false;
+      this.emit('scanStop');
+    }
+  }
+
+  /**
+   * Add a simulated lamp
+   */
+  public addLamp(config: SimulatedLampConfig): SimulatedLamp {
+    const lamp = new SimulatedLamp(this.log, this.conditions, config);
+    this.addPeripheral(lamp);
+    return lamp;
+  }
+
+  /**
+   * Add a simulated shutter actuator
+   */
+  public addShutter(config: SimulatedShutterConfig): SimulatedShutter {
+    const shutter = new SimulatedShutter(this.log, this.conditions, config);
+    this.addPeripheral(shutter);
+    return shutter;
+  }
+
+  /**
+   * Add a peripheral replaying an exported GATT profile
+   * The peripheral advertises and exposes the recorded GATT table, reads return the recorded values
+   * and writes are kept in memory. Notifications are not recorded and therefore not replayed.
+   */
+  public addProfile(profile: GattProfile): SimulatedPeripheral {
+    const peripheral = this.createPeripheral(profile.address, profile.name ?? undefined, profile.rssi ?? -60);
+    for (const serviceProfile of profile.services) {
+      const service = peripheral.addService(serviceProfile.uuid, serviceProfile.name ?? undefined);
+      for (const charProfile of serviceProfile.characteristics) {
+        const char = peripheral.addCharacteristic(
+          service,
+          charProfile.uuid,
+          charProfile.properties,
+          charProfile.value !== null ? Buffer.from(charProfile.value, 'hex') : undefined,
+          charProfile.handle ?? undefined,
+        );
+        for (const descriptor of charProfile.descriptors ?? []) {
+          char.addDescriptor(descriptor.uuid, descriptor.value !== null ? Buffer.from(descriptor.value, 'hex') : undefined);
+        }
+      }
+    }
+
+    // advertise exactly what the recorded device advertised
+    peripheral.advertisement.serviceUuids.splice(0, Infinity, ...profile.advertisement.serviceUuids);
+    if (profile.advertisement.manufacturerData) {
+      peripheral.advertisement.manufacturerData = Buffer.from(profile.advertisement.manufacturerData, 'hex');
+    }
+
+    this.log.info(`[Simulation] Replaying GATT profile of ${profile.address}`);
+    this.addPeripheral(peripheral);
+    return peripheral;
+  }
+
+  /**
+   * Add any simulated peripheral
+   */
+  public addPeripheral(peripheral: SimulatedPeripheral): void {
+    this.peripherals.set(peripheral.address, peripheral);
+  }
+
+  /**
+   * Create an empty peripheral sharing this transport's simulated conditions
+   */
+  public createPeripheral(address: string, localName?: string, rssi = -60): SimulatedPeripheral {
+    return new SimulatedPeripheral(this.log, this.conditions, address, localName, rssi);
+  }
+
+  /**
+   * Get a simulated peripheral by address
+   */
+  public getPeripheral(address: string): SimulatedPeripheral | undefined {
+    return this.peripherals.get(address);
+  }
+
+  /**
+   * Set the delay applied to every simulated operation
+   */
+  public setLatency(latencyMs: number): void {
+    this.conditions.latency = Math.max(0, latencyMs);
+    this.log.info(`[Simulation] Latency set to ${this.conditions.latency}ms`);
+  }
+
+  /**
+   * Drop the connection of a simulated peripheral
+   */
+  public injectDisconnect(address: string): void {
+    this.getPeripheralOrThrow(address).injectDisconnect();
+  }
+
+  /**
+   * Fail the next writes to a simulated peripheral
+   */
+  public injectWriteErrors(address: string, count = 1): void {
+    this.getPeripheralOrThrow(address).injectWriteErrors(count);
+  }
+
+  /**
+   * Leave the next operations of a simulated peripheral unanswered
+   */
+  public injectUnansweredOperations(address: string, count = 1): void {
+    this.getPeripheralOrThrow(address).injectUnansweredOperations(count);
+  }
+
+  private getPeripheralOrThrow(address: string): SimulatedPeripheral {
+    const peripheral = this.peripherals.get(address);
+    if (!peripheral) {
+      throw new Error(`Simulated peripheral not found: ${address}`);
+    }
+    return peripheral;
+  }
+
+  private stopAdvertising(): void {
+    if (this.advertisementTimer) {
+      clearInterval(this.advertisementTimer);
+      this.advertisementTimer = null;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/* global fetch */
+import assert from 'node:assert/strict';
+import { after, before, test } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { freePort, startPlatform, stopPlatform } from './helpers.js';
+
+const ADDRESS = 'aa:bb:cc:00:00:01';
+const TOKEN = 'secret';
+
+let api;
+let baseUrl;
+
+function request(path) {
+  return fetch(`${baseUrl}${path}`, { headers: { Authorization: `Bearer ${TOKEN}` } });
+}
+
+before(async () => {
+  const port = await freePort();
+  baseUrl = `http://127.0.0.1:${port}`;
+  ({ api } = startPlatform({
+    simulatedLamps: [{ address: ADDRESS, on: true }],
+    devices: [{ address: ADDRESS, name: 'Lamp' }],
+    autoReconnect: false,
+    api: { enabled: true, port, token: TOKEN },
+  }));
+  await sleep(500);
+});
+
+after(async () => {
+  await stopPlatform(api);
+});
+
+test('returns a lamp by its percent-encoded address', async () => {
+  const response = await request(`/lamps/${encodeURIComponent(ADDRESS)}`);
+  assert.equal(response.status, 200);
+  assert.equal((await response.json()).address, ADDRESS);
+});
+
+test('rejects a malformed percent-encoded address with 400', async () => {
+  const response = await request('/lamps/%E0%A4%A');
+  assert.equal(response.status, 400);
+  assert.deepEqual(await response.json(), { error: 'Lamp address is not validly percent-encoded' });
+});
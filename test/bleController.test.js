@@ -0,0 +1,50 @@
+/* global AbortSignal */
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { test } from 'node:test';
+
+import { BLEController } from '../dist/bleController.js';
+import { BLETimeoutError } from '../dist/errors.js';
+import { SimulatedTransport } from '../dist/simulatedTransport.js';
+import { log } from './helpers.js';
+
+const ADDRESS = 'aa:bb:cc:00:00:01';
+const TIMEOUT_MS = 10000;
+
+/**
+ * Connect a controller to a simulated lamp, without automatic reconnection
+ */
+async function connectLamp() {
+  const transport = new SimulatedTransport(log, { lamps: [{ address: ADDRESS, on: true }], latency: 5 });
+  const controller = new BLEController(log, transport);
+  await controller.init();
+  controller.setAutoReconnect(false);
+  controller.setOperationTimeouts({ connect: 1000, discover: 1000, read: 500, write: 500 });
+  await controller.connect(transport.getPeripheral(ADDRESS));
+  return { transport, controller };
+}
+
+test('fails an unanswered read with a BLETimeoutError and tears the connection down', async () => {
+  const { transport, controller } = await connectLamp();
+  try {
+    assert.equal(await controller.readLampState(), true);
+
+    transport.injectUnansweredOperations(ADDRESS, 1);
+    const failed = once(controller, 'operationFailed', { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    const disconnected = once(controller, 'disconnected', { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    const startedAt = Date.now();
+    assert.equal(await controller.readLampState(), null);
+
+    const [operation, error] = await failed;
+    assert.equal(operation, 'read');
+    assert.ok(error instanceof BLETimeoutError);
+    assert.equal(error.timeoutMs, 500);
+    assert.ok(Date.now() - startedAt >= 500);
+
+    await disconnected;
+    assert.equal(controller.getIsConnected(), false);
+    assert.equal(transport.getPeripheral(ADDRESS).state, 'disconnected');
+  } finally {
+    await controller.disconnect();
+  }
+});
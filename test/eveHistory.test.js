@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { startPlatform, stopPlatform } from './helpers.js';
+
+const ADDRESS = 'aa:bb:cc:00:00:01';
+const CONFIG = {
+  simulatedLamps: [{ address: ADDRESS, on: false }],
+  devices: [{ address: ADDRESS, name: 'Lamp', wattage: 60 }],
+  autoReconnect: false,
+};
+
+test('exposes the on time of a lamp and keeps it across restarts', async () => {
+  const first = startPlatform(CONFIG);
+  await sleep(500);
+  const [accessory] = first.platform.accessories.values();
+  const service = accessory.getService(first.platform.Service.Lightbulb);
+  const onTime = () => service.getCharacteristic(first.platform.CustomCharacteristics.OnTime).handleGetRequest();
+
+  await service.getCharacteristic(first.platform.Characteristic.On).handleSetRequest(true);
+  await sleep(2100);
+  await service.getCharacteristic(first.platform.Characteristic.On).handleSetRequest(false);
+  const time = await onTime();
+  assert.ok(time >= 2 && time <= 3, `on time ${time}`);
+  await sleep(1000);
+  assert.equal(await onTime(), time);
+  await stopPlatform(first.api);
+
+  // restored from the accessory cache like Homebridge does on startup
+  const PlatformAccessory = accessory.constructor;
+  const cached = PlatformAccessory.deserialize(JSON.parse(JSON.stringify(PlatformAccessory.serialize(accessory))));
+  const second = startPlatform(CONFIG, [cached]);
+  try {
+    await sleep(500);
+    const restored = cached.getService(second.platform.Service.Lightbulb);
+    assert.equal(await restored.getCharacteristic(second.platform.CustomCharacteristics.OnTime).handleGetRequest(), time);
+  } finally {
+    await stopPlatform(second.api);
+  }
+});
@@ -0,0 +1,68 @@
+/* global AbortController */
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+import { BLEAbortError } from '../dist/errors.js';
+import { GattOperationQueue } from '../dist/gattQueue.js';
+import { log } from './helpers.js';
+
+/**
+ * Queue an operation that keeps the queue busy until it is released
+ */
+function block(queue) {
+  let release;
+  const done = new Promise((resolve) => {
+    release = resolve;
+  });
+  const result = queue.enqueue('write', 'Blocking write', () => done);
+  return { release, result };
+}
+
+test('runs concurrent polls with the same key once', async () => {
+  const queue = new GattOperationQueue(log);
+  const blocker = block(queue);
+  let reads = 0;
+  const poll = () => queue.enqueue('poll', 'Read lamp state', async () => ++reads, 'read:control');
+
+  const polls = [poll(), poll(), poll()];
+  assert.equal(queue.getPendingCount(), 1);
+  blocker.release();
+
+  assert.deepEqual(await Promise.all(polls), [1, 1, 1]);
+  assert.equal(reads, 1);
+});
+
+test('runs a write before the polls queued ahead of it', async () => {
+  const queue = new GattOperationQueue(log);
+  const blocker = block(queue);
+  const order = [];
+  const run = (priority, name, key) => queue.enqueue(priority, name, async () => order.push(name), key);
+
+  const operations = [
+    run('poll', 'read state', 'read:control'),
+    run('poll', 'read level', 'read:level'),
+    run('write', 'write state', 'write:control'),
+  ];
+  blocker.release();
+  await Promise.all(operations);
+
+  assert.deepEqual(order, ['write state', 'read state', 'read level']);
+});
+
+test('rejects an aborted queued operation with a BLEAbortError without running it', async () => {
+  const queue = new GattOperationQueue(log);
+  const blocker = block(queue);
+  const controller = new AbortController();
+  let ran = false;
+
+  const read = queue.enqueue('poll', 'Read lamp state', async () => {
+    ran = true;
+  }, 'read:control', controller.signal);
+  controller.abort();
+
+  await assert.rejects(read, BLEAbortError);
+  assert.equal(queue.getPendingCount(), 0);
+  blocker.release();
+  await blocker.result;
+  assert.equal(ran, false);
+});
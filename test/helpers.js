@@ -0,0 +1,57 @@
+/* global URL */
+import { once } from 'node:events';
+import { createServer } from 'node:net';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { SchneiderBLELampsPlatform } from '../dist/platform.js';
+
+// HomebridgeAPI is not part of the public exports of homebridge, it is loaded from next to its entry point
+const { HomebridgeAPI } = await import(new URL('./api.js', import.meta.resolve('homebridge')).href);
+
+// Seconds of the startup scan window of the platform
+const SCAN_DURATION_S = 1;
+
+const silent = () => undefined;
+export const log = Object.assign(silent, { info: silent, warn: silent, error: silent, debug: silent, success: silent });
+
+/**
+ * Start the platform in simulation mode, as Homebridge does once it finished launching
+ * @param config - Platform options added to the simulation defaults
+ * @param cached - Accessories restored from the cache of a previous run
+ */
+export function startPlatform(config, cached = []) {
+  const api = new HomebridgeAPI();
+  const platform = new SchneiderBLELampsPlatform(log, {
+    platform: 'SchneiderBLELamps',
+    simulate: true,
+    simulatedLatency: 5,
+    scanDuration: SCAN_DURATION_S,
+    ...config,
+  }, api);
+  for (const accessory of cached) {
+    platform.configureAccessory(accessory);
+  }
+  api.emit('didFinishLaunching');
+  return { api, platform };
+}
+
+/**
+ * Shut the platform down, after the startup scan window as the platform only starts its housekeeping when it ends
+ */
+export async function stopPlatform(api) {
+  await sleep(SCAN_DURATION_S * 1000 + 1000);
+  api.emit('shutdown');
+}
+
+/**
+ * Find a free local port for the servers of the platform
+ */
+export async function freePort() {
+  const server = createServer();
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const { port } = server.address();
+  server.close();
+  await once(server, 'close');
+  return port;
+}
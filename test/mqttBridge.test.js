@@ -0,0 +1,102 @@
+/* global setTimeout, clearTimeout */
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { createServer } from 'node:net';
+import { after, before, test } from 'node:test';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import aedes from 'aedes';
+import { connect } from 'mqtt';
+
+import { startPlatform, stopPlatform } from './helpers.js';
+
+const ADDRESS = 'aa:bb:cc:00:00:01';
+const TOPIC = 'schneider-ble/aabbcc000001';
+const TIMEOUT_MS = 10000;
+
+let broker;
+let server;
+let api;
+let platform;
+let client;
+const messages = [];
+const waiters = [];
+
+/**
+ * Wait for a message on a topic, messages received before the call are taken into account
+ */
+function waitForMessage(topic, payload) {
+  const matches = (message) => message.topic === topic && message.payload === payload;
+  if (messages.some(matches)) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`No ${payload} on ${topic}`)), TIMEOUT_MS);
+    waiters.push({ matches, resolve: () => {
+      clearTimeout(timer);
+      resolve();
+    } });
+  });
+}
+
+before(async () => {
+  broker = await aedes.createBroker();
+  server = createServer(broker.handle);
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  const url = `mqtt://127.0.0.1:${server.address().port}`;
+
+  client = connect(url);
+  client.on('message', (topic, payload) => {
+    const message = { topic, payload: payload.toString() };
+    messages.push(message);
+    for (const waiter of waiters.filter((waiter) => waiter.matches(message))) {
+      waiters.splice(waiters.indexOf(waiter), 1);
+      waiter.resolve();
+    }
+  });
+  await once(client, 'connect');
+  await client.subscribeAsync(`${TOPIC}/#`);
+
+  ({ api, platform } = startPlatform({
+    simulatedLamps: [{ address: ADDRESS, on: false }],
+    devices: [{ address: ADDRESS, name: 'Lamp' }],
+    autoReconnect: false,
+    mqtt: { enabled: true, url },
+  }));
+});
+
+after(async () => {
+  await stopPlatform(api);
+  await client.endAsync();
+  await new Promise((resolve) => broker.close(resolve));
+  server.close();
+});
+
+test('publishes the state and availability of a lamp', async () => {
+  await waitForMessage(`${TOPIC}/availability`, 'online');
+  await waitForMessage(`${TOPIC}/state`, 'OFF');
+});
+
+test('switches a lamp on a set command and publishes its new state', async () => {
+  messages.length = 0;
+  await client.publishAsync(`${TOPIC}/set`, 'ON');
+  await waitForMessage(`${TOPIC}/state`, 'ON');
+  assert.equal(await platform.connectionManager.getController(ADDRESS).readLampState(), true);
+});
+
+test('ignores set commands with an invalid state', async () => {
+  messages.length = 0;
+  for (const payload of ['OFFF', '1', 'true', '{"state": "of"}', '{"state": false}']) {
+    await client.publishAsync(`${TOPIC}/set`, payload);
+  }
+  await sleep(500);
+  assert.equal(messages.some((message) => message.topic === `${TOPIC}/state`), false);
+  assert.equal(await platform.connectionManager.getController(ADDRESS).readLampState(), true);
+});
+
+test('publishes a lamp as offline when it disconnects', async () => {
+  messages.length = 0;
+  await platform.connectionManager.getController(ADDRESS).disconnect();
+  await waitForMessage(`${TOPIC}/availability`, 'offline');
+});
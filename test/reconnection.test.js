@@ -0,0 +1,46 @@
+/* global AbortSignal, fetch */
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import { test } from 'node:test';
+
+import { freePort, startPlatform, stopPlatform } from './helpers.js';
+
+const ADDRESS = 'aa:bb:cc:00:00:01';
+const TIMEOUT_MS = 10000;
+
+test('reconnects a lamp that advertises again after reconnection was given up', async () => {
+  const port = await freePort();
+  const { api, platform } = startPlatform({
+    simulatedLamps: [{ address: ADDRESS }],
+    devices: [{ address: ADDRESS, name: 'Lamp' }],
+    // advertisements of disconnected lamps are reported every second
+    discoveryMode: 'continuous',
+    maxReconnectionAttempts: 1,
+    initialReconnectionDelay: 100,
+    timeouts: { connect: 500 },
+    metrics: { enabled: true, port },
+  });
+  try {
+    const controller = platform.connectionManager.getController(ADDRESS);
+    await once(controller, 'connected', { signal: AbortSignal.timeout(TIMEOUT_MS) });
+
+    // the lamp goes out of range and does not answer the only reconnection attempt
+    const lamp = platform.getPeripheralByAddress(ADDRESS);
+    lamp.injectDisconnect();
+    lamp.injectUnansweredOperations(1);
+    await once(controller, 'gaveUp', { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    assert.equal(controller.hasGivenUp(), true);
+
+    // giving up is not counted as another attempt
+    const metrics = await (await fetch(`http://127.0.0.1:${port}/metrics`)).text();
+    assert.match(metrics, new RegExp(`^ble_reconnection_attempts_total\\{lamp="${ADDRESS}"\\} 1$`, 'm'));
+    assert.match(metrics, new RegExp(`^ble_reconnection_attempt\\{lamp="${ADDRESS}"\\} 1$`, 'm'));
+
+    // it is back in range and advertises again
+    await once(controller, 'connected', { signal: AbortSignal.timeout(TIMEOUT_MS) });
+    assert.equal(controller.getIsConnected(), true);
+    assert.equal(controller.hasGivenUp(), false);
+  } finally {
+    await stopPlatform(api);
+  }
+});